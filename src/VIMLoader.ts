@@ -3,93 +3,181 @@
 */
 
 import * as THREE from 'three'
-import * as BufferGeometryUtils from '../node_modules/three/examples/jsm/utils/BufferGeometryUtils.js'
-import { G3d, VimG3d, Attribute } from './g3d'
-import { BFast, BFastHeader } from './bfast'
+import { G3d, VimG3d } from './g3d'
+import { BFast, RemoteBFast, parseBFast, parseBFastFromArray } from './bfast'
+import { RemoteBuffer } from './remoteBuffer'
 import { Vim, VimScene, VimSceneGeometry } from './vim'
-import { BufferAttribute, BufferGeometry } from 'three'
+import { nodeAttributes } from './vimMaterial'
 import { createBufferGeometryFromArrays } from './threeHelpers'
+import { setBvhRaycast } from './bvhRaycast'
+import {
+  buildGeometryData,
+  buildMeshData,
+  GeometryData,
+  getOrigin,
+  InstancedMeshData,
+  MergedMeshData
+} from './geometryData'
+import {
+  GeometryResult,
+  GeometryWorker,
+  InlineWorker,
+  WorkerLike
+} from './geometryWorker'
+import {
+  BFastHeaderError,
+  EntityTableError,
+  G3dValidationError,
+  LoadAbortedError,
+  throwIfAborted
+} from './loadErrors'
+import { LoadProgress, LoadStage, ProgressReporter } from './loadProgress'
 
 type Mesh = THREE.InstancedMesh<THREE.BufferGeometry, THREE.Material>
 
+export interface VimLoadOptions {
+  signal?: AbortSignal
+  onProgress?: (progress: LoadProgress) => void
+  // Called once the geometry is ready, while BIM data is still loading
+  onGeometryLoaded?: (vim: VimScene) => void
+  // Subtracted from model space coordinates, found from the geometry when undefined.
+  // A pending origin is waited for once the geometry is downloaded.
+  origin?: number[] | Promise<number[] | undefined>
+}
+
 export class VIMLoader {
   material: THREE.Material
-  timerName: string
-
-  constructor (material: THREE.Material) {
+  // Used by submeshes which are not opaque, whose vertex colors have an alpha
+  transparentMaterial: THREE.Material
+  createWorker: () => WorkerLike
+  progress: ProgressReporter
+
+  constructor (
+    material: THREE.Material,
+    createWorker: () => WorkerLike = () => new InlineWorker(),
+    transparentMaterial: THREE.Material = createTransparentMaterial(material)
+  ) {
     this.material = material
-    this.timerName = 'VIM Loader'
-  }
-
-  logStart () {
-    console.time(this.timerName)
+    this.transparentMaterial = transparentMaterial
+    this.createWorker = createWorker
+    this.progress = new ProgressReporter()
   }
 
   log (msg: string) {
-    console.timeLog(this.timerName, msg)
+    this.progress.log(msg)
   }
 
-  logEnd () {
-    console.timeEnd(this.timerName)
+  timeAction<T> (stage: LoadStage, call: () => T): T {
+    return this.progress.time(stage, call)
   }
 
-  timeAction<T> (task: string, call: () => T): T {
-    console.log('Started ' + task)
-    const time = 'Ended ' + task
-    console.time(time)
-    const result = call()
-    console.timeEnd(time)
-    return result
+  /**
+   * Loads a VIM from a url or from its bytes, building the geometry before the BIM data.
+   * A remote VIM is fetched in parts so that geometry arrives first.
+   */
+  async load (
+    source: string | RemoteBuffer | Uint8Array,
+    options: VimLoadOptions = {}
+  ): Promise<VimScene> {
+    const signal = options.signal
+    this.progress = new ProgressReporter(options.onProgress)
+
+    let getBuffer: (name: string) => Promise<Uint8Array | undefined>
+    let download: ProgressReporter | undefined
+    if (source instanceof Uint8Array) {
+      const bfast = this.timeAction('parse-bfast', () =>
+        this.parseBFastFromArray(source)
+      )
+      this.log(`Found buffers: ${bfast.names.join(', ')}`)
+      getBuffer = async (name) => bfast.buffers[bfast.names.indexOf(name)]
+    } else {
+      // Downloads overlap with other stages so they are reported separately
+      download = new ProgressReporter(options.onProgress)
+      const remote =
+        source instanceof RemoteBuffer
+          ? source
+          : new RemoteBuffer(source, signal)
+      remote.onProgress = (loaded, total) => download.update(loaded, total)
+      download.start('download')
+
+      const bfast = new RemoteBFast(remote)
+      await bfast.initialize()
+      this.log(`Found buffers: ${bfast.names.join(', ')}`)
+      getBuffer = (name) => bfast.getBuffer(name)
+    }
+
+    const g3dData = await getBuffer('geometry')
+    if (!g3dData) throw new G3dValidationError('VIM has no geometry buffer')
+    this.log('Geometry arrived')
+
+    // Start downloading the rest while geometry is being built
+    const bimData = Promise.all(
+      ['header', 'assets', 'entities', 'strings'].map((name) =>
+        getBuffer(name).then((buffer) => {
+          if (!buffer) throw new EntityTableError(`VIM has no ${name} buffer`)
+          return buffer
+        })
+      )
+    )
+    // Avoid unhandled rejection while geometry is being built
+    bimData.catch(() => {})
+
+    const origin = await options.origin
+    throwIfAborted(signal)
+    const scene = await this.buildScene(g3dData, signal, origin)
+    options.onGeometryLoaded?.(scene)
+
+    const [header, assets, entities, strings] = await bimData
+    download?.end()
+    throwIfAborted(signal)
+
+    this.timeAction('parse-bim', () =>
+      this.constructBim(scene.vim, header, assets, entities, strings)
+    )
+    scene.mapElements()
+    return scene
   }
 
-  // Loads the VIM from a URL
-  load (
-    url: string,
-    onLoad?: (response: VimScene) => void,
-    onProgress?: (request: ProgressEvent) => void,
-    onError?: (event: ErrorEvent) => void
-  ) {
-    this.logStart()
-
-    const loader = new THREE.FileLoader()
-    loader.setResponseType('arraybuffer')
-    loader.setRequestHeader({
-      'Content-Encoding': 'gzip'
-      // 'Accept-Encoding': 'gzip, deflate'
-    })
-
-    loader.load(
-      url,
-      (data: string | ArrayBuffer) => {
-        this.log('Data arrived')
-        if (typeof data === 'string') {
-          onError?.(new ErrorEvent('Unsupported string loader response'))
-          return
-        }
-        let vim: any
-        try {
-          vim = this.parse(data)
-        } catch (exception) {
-          const error = exception as Error
-          console.log(
-            `Error occured when loading VIM from ${url}, message = ${error} at = ${error.stack}`
-          )
-          onError?.(new ErrorEvent('Loading Error', { error: exception }))
-          return
-        }
-        // Don't catch exceptions in code provided by caller.
-        this.log('Calling onLoad() parameter')
-        onLoad?.(vim)
-        this.log('Finished calling onLoad() parameter')
-      },
-      onProgress,
-      onError
+  // Builds the geometry of a vim in the worker, bytes are transfered to the worker.
+  async buildScene (
+    g3dData: Uint8Array,
+    signal?: AbortSignal,
+    origin?: number[]
+  ): Promise<VimScene> {
+    const worker = new GeometryWorker(this.createWorker())
+    const abort = () => worker.terminate(new LoadAbortedError())
+    signal?.addEventListener('abort', abort)
+
+    let result: GeometryResult
+    try {
+      throwIfAborted(signal)
+      result = await worker.build(g3dData, this.progress.onProgress, origin)
+    } finally {
+      signal?.removeEventListener('abort', abort)
+      worker.terminate()
+    }
+    throwIfAborted(signal)
+
+    // Validation already happened in the worker, parsing only makes views of the bytes
+    const [g3dBytes, geometryData, geometryOrigin, rebased] = result
+    const g3d = new VimG3d(
+      this.constructG3D(this.parseBFastFromArray(g3dBytes))
+    )
+    // Moved in the worker, so that nodes match their meshes
+    if (rebased) {
+      g3d.positions = rebased.positions
+      g3d.instanceTransforms = rebased.instanceTransforms
+    }
+    const vim = new Vim(undefined, undefined, g3d, undefined, undefined)
+    const scene = this.timeAction('create-meshes', () =>
+      this.createSceneFromData(vim, geometryData)
     )
-    this.log('Finished loading')
+    scene.origin.fromArray(geometryOrigin)
+    return scene
   }
 
   parseBFastFromArray (bytes: Uint8Array) {
-    return this.parseBFast(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    return parseBFastFromArray(bytes)
   }
 
   // BFAST is the container format for an array of binary arrays
@@ -98,63 +186,7 @@ export class VIMLoader {
     byteOffset: number = 0,
     byteLength: number = arrayBuffer.byteLength - byteOffset
   ): BFast {
-    // Cast the input data to 32-bit integers
-    // Note that according to the spec they are 64 bit numbers. In JavaScript you can't have 64 bit integers,
-    // and it would bust the amount of memory we can work with in most browsers and low-power devices
-    const data = new Int32Array(arrayBuffer, byteOffset, byteLength / 4)
-
-    // Parse the header
-    const header = BFastHeader.fromArray(data, byteLength)
-
-    // Compute each buffer
-    const buffers: Uint8Array[] = []
-    let pos = 8
-    for (let i = 0; i < header.numArrays; ++i) {
-      const begin = data[pos + 0]
-      const end = data[pos + 2]
-
-      // Check validity of data
-      if (data[pos + 1] !== 0) {
-        throw new Error('Expected 0 in position ' + (pos + 1) * 4)
-      }
-      if (data[pos + 3] !== 0) {
-        throw new Error('Expected 0 in position ' + (pos + 3) * 4)
-      }
-      if (begin < header.dataStart || begin > header.dataEnd) {
-        throw new Error('Buffer start is out of range')
-      }
-      if (end < begin || end > header.dataEnd) {
-        throw new Error('Buffer end is out of range')
-      }
-
-      pos += 4
-      const buffer = new Uint8Array(
-        arrayBuffer,
-        begin + byteOffset,
-        end - begin
-      )
-      buffers.push(buffer)
-    }
-
-    if (buffers.length < 0) {
-      throw new Error('Expected at least one buffer containing the names')
-    }
-
-    // break the first one up into names
-    const joinedNames = new TextDecoder('utf-8').decode(buffers[0])
-
-    // Removing the trailing '\0' before spliting the names
-    let names = joinedNames.slice(0, -1).split('\0')
-    if (joinedNames.length === 0) names = []
-
-    // Validate the number of names
-    if (names.length !== buffers.length - 1) {
-      throw new Error(
-        'Expected number of names to be equal to the number of buffers - 1'
-      )
-    }
-
-    return new BFast(header, names, buffers.slice(1))
+    return parseBFast(arrayBuffer, byteOffset, byteLength)
   }
 
   constructEntityTable (bfast: BFast) {
@@ -172,6 +204,7 @@ export class VIMLoader {
           buffer.byteLength / 8
         )
         result.set(columnName, columnData)
+        result.set(bfast.names[i], columnData)
       } else if (columnType === 'string' || columnType === 'index') {
         columnData = new Int32Array(
           buffer.buffer,
@@ -179,16 +212,23 @@ export class VIMLoader {
           buffer.byteLength / 4
         )
         result.set(columnName, columnData)
+        // The full name keeps the type and the relation name of the column
+        result.set(bfast.names[i], columnData)
       } else if (columnType === 'properties') {
+        // Triples of entity index, name string index and value string index
+        if (buffer.byteLength % 12 !== 0) {
+          throw new EntityTableError(
+            `Invalid properties column of ${buffer.byteLength} bytes, expected a multiple of 12`
+          )
+        }
         columnData = new Int32Array(
           buffer.buffer,
           buffer.byteOffset,
           buffer.byteLength / 4
         )
-        // TODO Fix this JS
-        result.set('properties', buffer)
+        result.set('properties', columnData)
       } else {
-        throw new Error('Unrecognized column type ' + columnType)
+        throw new EntityTableError('Unrecognized column type ' + columnType)
       }
     }
     return result
@@ -212,7 +252,7 @@ export class VIMLoader {
   // Given a BFAST container (header/names/buffers) constructs a VIM data structure
   constructVIM = (bfast: any): Vim => {
     if (bfast.buffers.length < 5) {
-      throw new Error('VIM requires at least five BFast buffers')
+      throw new BFastHeaderError('VIM requires at least five BFast buffers')
     }
 
     const lookup = new Map<string, any>()
@@ -220,342 +260,226 @@ export class VIMLoader {
       lookup.set(bfast.names[i], bfast.buffers[i])
     }
 
-    const assetData = lookup.get('assets')
-    const g3dData = lookup.get('geometry')
-    const headerData = lookup.get('header')
-    const entityData = lookup.get('entities')
-    const stringData = lookup.get('strings')
-
-    this.log(`Parsing header: ${headerData.length} bytes`)
-    const header = new TextDecoder('utf-8').decode(headerData)
+    const g3d = this.timeAction('parse-bfast', () =>
+      this.constructVimG3d(lookup.get('geometry'))
+    )
+    const vim = new Vim(undefined, undefined, g3d, undefined, undefined)
+    this.timeAction('parse-bim', () =>
+      this.constructBim(
+        vim,
+        lookup.get('header'),
+        lookup.get('assets'),
+        lookup.get('entities'),
+        lookup.get('strings')
+      )
+    )
+    return vim
+  }
 
+  constructVimG3d (g3dData: Uint8Array): VimG3d {
     this.log(`Constructing G3D: ${g3dData.length} bytes`)
     const g3d = new VimG3d(this.constructG3D(this.parseBFastFromArray(g3dData)))
     this.log('Validating G3D')
     g3d.validate()
+    return g3d
+  }
+
+  // Fills the non geometric part of the vim from the corresponding BFAST buffers
+  constructBim (
+    vim: Vim,
+    headerData: Uint8Array,
+    assetData: Uint8Array,
+    entityData: Uint8Array,
+    stringData: Uint8Array
+  ) {
+    this.log(`Parsing header: ${headerData.length} bytes`)
+    vim.header = new TextDecoder('utf-8').decode(headerData)
 
     this.log(`Retrieving assets: ${assetData.length} bytes`)
-    const assets = this.parseBFastFromArray(assetData)
-    this.log(`Found ${assets.buffers.length} assets`)
+    vim.assets = this.parseBFastFromArray(assetData)
+    this.log(`Found ${vim.assets.buffers.length} assets`)
 
     this.log(`Constructing entity tables: ${entityData.length} bytes`)
-    const entities = this.constructEntityTables(
-      this.parseBFastFromArray(entityData)
-    )
-    this.log(`Found ${entities.length} entity tables`)
+    try {
+      vim.bim = this.constructEntityTables(this.parseBFastFromArray(entityData))
+    } catch (error) {
+      if (error instanceof EntityTableError) throw error
+      throw new EntityTableError(
+        `Invalid entity tables: ${(error as Error).message}`,
+        error
+      )
+    }
+    this.log(`Found ${vim.bim.size} entity tables`)
 
     this.log(`Decoding strings: ${stringData.length} bytes`)
-    const strings = new TextDecoder('utf-8').decode(stringData).split('\0')
-    this.log(`Found ${strings.length} strings`)
-
-    return new Vim(header, assets, g3d, entities, strings)
+    vim.strings = new TextDecoder('utf-8').decode(stringData).split('\0')
+    this.log(`Found ${vim.strings.length} strings`)
   }
 
   // Given a BFAST container (header/names/buffers) constructs a G3D data structure
   constructG3D (bfast: BFast): G3d {
-    console.log('Constructing G3D')
-
-    if (bfast.buffers.length < 2) {
-      throw new Error('G3D requires at least two BFast buffers')
-    }
-
-    // Parse first buffer as Meta
-    const metaBuffer = bfast.buffers[0]
-    if (bfast.names[0] !== 'meta') {
-      throw new Error(
-        "First G3D buffer must be named 'meta', but was named: " +
-          bfast.names[0]
-      )
-    }
-    const meta = new TextDecoder('utf-8').decode(metaBuffer)
-
-    // Parse remaining buffers as Attributes
-    const attributes: Attribute[] = []
-    const nDescriptors = bfast.buffers.length - 1
-    for (let i = 0; i < nDescriptors; ++i) {
-      const attribute = Attribute.fromString(
-        bfast.names[i + 1],
-        bfast.buffers[i + 1]
-      )
-      attributes.push(attribute)
-      console.log(`Attribute ${i} = ${attribute.descriptor.description}`)
-    }
-
-    return new G3d(meta, attributes)
+    this.log('Constructing G3D')
+    const g3d = G3d.fromBFast(bfast)
+    g3d.attributes.forEach((attribute, i) =>
+      this.log(`Attribute ${i} = ${attribute.descriptor.description}`)
+    )
+    return g3d
   }
 
   // Main
   parse (data: ArrayBuffer): VimScene {
-    const bfast = this.timeAction('Parsing Vim', () => this.parseBFast(data))
-
-    console.log(`found: ${bfast.buffers.length} buffers`)
-    console.log(bfast.names.join(', '))
-
-    const vim = this.timeAction('Creating VIM', () => this.constructVIM(bfast))
+    const bfast = this.timeAction('parse-bfast', () => this.parseBFast(data))
+    this.log(`Found buffers: ${bfast.names.join(', ')}`)
 
-    const geometryBuilder = new BufferGeometryBuilder(vim.g3d)
-    const geometry = this.timeAction('Allocating Geometry', () =>
-      geometryBuilder.createAllGeometry()
-    )
-    console.log('Found # meshes ' + geometry.length)
-
-    const meshRefCounts = this.timeAction('Counting references', () =>
-      vim.g3d.getMeshReferenceCounts()
-    )
-
-    const rawMeshes = this.timeAction('Allocating Meshes', () =>
-      this.allocateMeshes(geometry, meshRefCounts)
-    )
-
-    const sceneGeometry = this.timeAction('Instantiating Shared Geometry', () =>
-      this.instantiateSharedGeometry(rawMeshes, vim.g3d)
-    )
-
-    const mergedMesh = this.timeAction('Merging Unique Geometry', () =>
-      this.mergeUniqueGeometry(vim.g3d, geometry, meshRefCounts)
-    )
-    sceneGeometry.addMesh(mergedMesh)
-
-    console.log('Loading Completed')
-    return new VimScene(vim, sceneGeometry, geometryBuilder)
+    const vim = this.constructVIM(bfast)
+    return this.createScene(vim)
   }
 
-  mergeUniqueGeometry (
-    g3d: VimG3d,
-    geometry: THREE.BufferGeometry[],
-    meshRefCounts: Int32Array
-  ) {
-    const uniques = this.getTransformedUniqueGeometry(
-      g3d,
-      geometry,
-      meshRefCounts
+  /**
+   * Builds the three.js meshes of given vim on the calling thread.
+   * The g3d of the vim is moved near zero when far from it.
+   */
+  createScene (vim: Vim, origin: number[] = getOrigin(vim.g3d)): VimScene {
+    vim.g3d.rebase(origin)
+    const data = buildGeometryData(vim.g3d, this.progress)
+    const scene = this.timeAction('create-meshes', () =>
+      this.createSceneFromData(vim, data)
     )
-
-    const result = this.createMergedMesh(uniques)
-    uniques.forEach((u) => u.dispose())
-    return result
+    scene.origin.fromArray(origin)
+    return scene
   }
 
-  getTransformedUniqueGeometry (
-    g3d: VimG3d,
-    geometry: THREE.BufferGeometry[],
-    meshRefCounts: Int32Array
-  ): THREE.BufferGeometry[] {
-    const result: THREE.BufferGeometry[] = []
-
-    for (let i = 0; i < g3d.instanceMeshes.length; i++) {
-      const meshIndex = g3d.instanceMeshes[i]
-      if (meshIndex < 0) continue
-
-      const bufferGeometry = geometry[meshIndex]
-      if (!bufferGeometry) continue
-
-      // only merge unique objects
-      if (meshRefCounts[meshIndex] === 1) {
-        // adding uvs for picking
-        this.addUVs(bufferGeometry, i)
-        const matrix = getMatrixFromNodeIndex(g3d, i)
-        bufferGeometry.applyMatrix4(matrix)
-        result.push(bufferGeometry)
+  // Wraps the geometry data built by the worker into three.js meshes
+  createSceneFromData (vim: Vim, data: GeometryData): VimScene {
+    const sceneGeometry = new VimSceneGeometry()
+    const add = (
+      instanced: InstancedMeshData[],
+      merged: MergedMeshData | undefined,
+      transparent: boolean
+    ) => {
+      const material = transparent ? this.transparentMaterial : this.material
+      const colorArity = transparent ? 4 : 3
+      instanced.forEach((m) => {
+        const mesh = this.createInstancedMesh(m, material, colorArity)
+        if (transparent) markTransparent(mesh)
+        sceneGeometry.addInstancedMesh(mesh, m.nodes)
+      })
+      if (merged) {
+        const mesh = this.createMergedMesh(merged, material, colorArity)
+        if (transparent) markTransparent(mesh)
+        sceneGeometry.addMergedMesh(mesh, merged.nodes, merged.vertexOffsets)
       }
     }
-    return result
+
+    this.log('Instantiating shared geometry: ' + data.instanced.length)
+    add(data.instanced, data.merged, false)
+    this.log(
+      'Instantiating transparent geometry: ' + data.transparentInstanced.length
+    )
+    add(data.transparentInstanced, data.transparentMerged, true)
+
+    return new VimScene(vim, sceneGeometry, new BufferGeometryBuilder(vim.g3d))
   }
 
   // TODO Use and support a simple THREE.Mesh
-  createMergedMesh (bufferGeometry: BufferGeometry[]): THREE.InstancedMesh {
-    const mergedbufferGeometry: THREE.BufferGeometry =
-      BufferGeometryUtils.mergeBufferGeometries(bufferGeometry)
-
-    const mergedMesh = new THREE.InstancedMesh(
-      mergedbufferGeometry,
-      this.material,
-      1
+  createMergedMesh (
+    data: MergedMeshData,
+    material: THREE.Material = this.material,
+    colorArity: number = 3
+  ): THREE.InstancedMesh {
+    const geometry = createBufferGeometryFromArrays(
+      data.positions,
+      data.indices,
+      data.colors,
+      colorArity
     )
+    // per vertex, see vimMaterial
+    const vertexCount = data.positions.length / 3
+    nodeAttributes.forEach((name) =>
+      geometry.setAttribute(
+        name,
+        new THREE.BufferAttribute(new Float32Array(vertexCount), 1)
+      )
+    )
+    geometry.setAttribute(
+      'colorOverride',
+      new THREE.BufferAttribute(new Uint8Array(vertexCount * 4), 4, true)
+    )
+
+    const mergedMesh = new THREE.InstancedMesh(geometry, material, 1)
     mergedMesh.setMatrixAt(0, new THREE.Matrix4())
-    mergedbufferGeometry.computeBoundingSphere()
+    setBvhRaycast(mergedMesh, data.bvh)
+    geometry.computeBoundingSphere()
     // Used by picking to distinguish merged meshes
     mergedMesh.userData.merged = true
     return mergedMesh
   }
 
-  addUVs (bufferGeometry: BufferGeometry, value: number) {
-    const uvArity = 2
-    const vertexCount = bufferGeometry.getAttribute('position').count
-    const uvs = new Float32Array(vertexCount * uvArity)
-    uvs.fill(value)
-    bufferGeometry.setAttribute('uv', new BufferAttribute(uvs, uvArity))
-  }
-
-  allocateMeshes (
-    geometries: THREE.BufferGeometry[],
-    meshRefCounts: Int32Array
-  ): (Mesh | null)[] {
-    const meshCount = geometries.length
-    const meshes: (Mesh | null)[] = new Array(meshCount)
-
-    for (let i = 0; i < meshCount; ++i) {
-      const count = meshRefCounts[i]
-      if (count <= 1) {
-        continue
-      }
-
-      const geometry = geometries[i]
-      if (geometry === null) {
-        continue
-      }
-
-      meshes[i] = new THREE.InstancedMesh(geometry, this.material, count)
-    }
-
-    return meshes
-  }
-
-  instantiateSharedGeometry (
-    meshes: (Mesh | null)[],
-    g3d: VimG3d
-  ): VimSceneGeometry {
-    const instanceCounters = new Int32Array(meshes.length)
-    let boundingSphere: THREE.Sphere | null = null
-    const nodeIndexToMeshInstance = new Map<number, [Mesh, number]>()
-    const meshIdToNodeIndex = new Map<number, [number]>()
-    const resultMeshes: Mesh[] = []
-
-    for (let i = 0; i < g3d.getInstanceCount(); ++i) {
-      const meshIndex = g3d.instanceMeshes[i]
-      if (meshIndex < 0) continue
-
-      const mesh = meshes[meshIndex]
-      if (!mesh) continue
-
-      const count = instanceCounters[meshIndex]++
-
-      // Set Node-MeshMap
-      const nodes = meshIdToNodeIndex.get(mesh.id)
-      if (nodes) {
-        nodes.push(i)
-      } else {
-        meshIdToNodeIndex.set(mesh.id, [i])
-        resultMeshes.push(mesh) // push mesh first time it is seen
-      }
-
-      // Set Node ID for picking
-      nodeIndexToMeshInstance.set(i, [mesh, count])
-
-      // Set matrix
-      const matrix = getMatrixFromNodeIndex(g3d, i)
-      mesh.setMatrixAt(count, matrix)
-
-      // Compute total bounding sphere
-      const sphere = mesh.geometry.boundingSphere!.clone()
-      sphere.applyMatrix4(matrix)
-      boundingSphere = boundingSphere ? boundingSphere.union(sphere) : sphere
-    }
-    return new VimSceneGeometry(
-      resultMeshes,
-      boundingSphere ?? new THREE.Sphere(),
-      nodeIndexToMeshInstance,
-      meshIdToNodeIndex
+  createInstancedMesh (
+    data: InstancedMeshData,
+    material: THREE.Material = this.material,
+    colorArity: number = 3
+  ): Mesh {
+    const geometry = createBufferGeometryFromArrays(
+      data.positions,
+      data.indices,
+      data.colors,
+      colorArity
     )
+    geometry.computeBoundingSphere()
+    geometry.computeBoundingBox()
+
+    const count = data.nodes.length
+    // per instance, see vimMaterial
+    nodeAttributes.forEach((name) =>
+      geometry.setAttribute(
+        name,
+        new THREE.InstancedBufferAttribute(new Float32Array(count), 1)
+      )
+    )
+    geometry.setAttribute(
+      'colorOverride',
+      new THREE.InstancedBufferAttribute(new Uint8Array(count * 4), 4, true)
+    )
+    const mesh = new THREE.InstancedMesh(geometry, material, count)
+    mesh.instanceMatrix = new THREE.InstancedBufferAttribute(data.matrices, 16)
+    setBvhRaycast(mesh, data.bvh, data.instanceBvh)
+    return mesh
   }
 }
 
 export class BufferGeometryBuilder {
-  defaultColor = new THREE.Color(0.5, 0.5, 0.5)
-  indexBuffer: Int32Array
-  vertexBuffer: Float32Array
-  colorBuffer: Float32Array
-
   g3d: VimG3d
 
   constructor (g3d: VimG3d) {
-    this.vertexBuffer = Float32Array.from(g3d.positions)
-    this.colorBuffer = new Float32Array(g3d.positions.length)
-    this.indexBuffer = new Int32Array(g3d.indices.length)
     this.g3d = g3d
   }
 
-  createAllGeometry = (): THREE.BufferGeometry[] => {
-    const meshCount = this.g3d.meshSubmeshes.length
-    const resultMeshes: THREE.BufferGeometry[] = []
-
-    for (let mesh = 0; mesh < meshCount; mesh++) {
-      const result = this.createBufferGeometryFromMeshIndex(mesh)
-      result?.computeBoundingSphere()
-      result?.computeBoundingBox()
-      resultMeshes.push(result)
-    }
-
-    return resultMeshes
-  }
-
   createBufferGeometryFromMeshIndex (
     meshIndex: number
   ): THREE.BufferGeometry | null {
-    // min and max indices accumulated to slice into the vertex buffer
-    let min: number = Number.MAX_SAFE_INTEGER
-    let max: number = 0
-    let indexCount = 0
-
-    const [meshStart, meshEnd] = this.g3d.getMeshSubmeshRange(meshIndex)
-    for (let submesh = meshStart; submesh < meshEnd; submesh++) {
-      // transparent submeshes are skipped
-      const submeshColor = this.getSubmeshColor(this.g3d, submesh)
-      if (!submeshColor) continue
-
-      const [submeshStart, submeshEnd] = this.g3d.getSubmeshIndexRange(submesh)
-      for (let index = submeshStart; index < submeshEnd; index++) {
-        const vertex = this.g3d.indices[index]
-        this.indexBuffer[indexCount++] = vertex
-        min = Math.min(min, vertex)
-        max = Math.max(max, vertex)
-        submeshColor.toArray(this.colorBuffer, vertex * 3)
-      }
-    }
-
-    // If all submesh are transparent, we push null to keep results aligned
-    if (indexCount === 0) return null
-
-    // 3 is both the arity of the vertex buffer and of THREE.color
-    const sliceStart = min * 3
-    const sliceEnd = (max + 1) * 3
-
-    // Rebase indices in mesh space
-    for (let i = 0; i < indexCount; i++) {
-      this.indexBuffer[i] -= min
-    }
+    // If all submesh are transparent, there is no geometry
+    const data = buildMeshData(this.g3d, meshIndex)
+    if (!data) return null
 
     return createBufferGeometryFromArrays(
-      this.vertexBuffer.subarray(sliceStart, sliceEnd),
-      this.indexBuffer.subarray(0, indexCount),
-      this.colorBuffer.subarray(sliceStart, sliceEnd)
+      data.positions,
+      data.indices,
+      data.colors
     )
   }
 
   createBufferGeometryFromInstanceIndex (
     instanceIndex: number
-  ): THREE.BufferGeometry {
+  ): THREE.BufferGeometry | null {
     const meshIndex = this.g3d.instanceMeshes[instanceIndex]
+    if (meshIndex < 0) return null
     const geometry = this.createBufferGeometryFromMeshIndex(meshIndex)
+    if (!geometry) return null
     const matrix = getMatrixFromNodeIndex(this.g3d, instanceIndex)
     geometry.applyMatrix4(matrix)
     return geometry
   }
-
-  getSubmeshColor (g3d: VimG3d, submesh: number) {
-    const material = g3d.submeshMaterial[submesh]
-    if (material < 0) {
-      return this.defaultColor
-    }
-
-    const colorIndex = material * g3d.colorArity
-    const alpha = g3d.materialColors[colorIndex + 3]
-    if (alpha < 0.9) {
-      return // to skip transparent materials
-    }
-
-    return new THREE.Color().fromArray(g3d.materialColors, colorIndex)
-  }
 }
 
 function getMatrixFromNodeIndex (g3d: VimG3d, index: number): THREE.Matrix4 {
@@ -564,3 +488,30 @@ function getMatrixFromNodeIndex (g3d: VimG3d, index: number): THREE.Matrix4 {
   matrix.elements = Array.from(matrixAsArray)
   return matrix
 }
+
+// See-through copy of given material
+function createTransparentMaterial (material: THREE.Material): THREE.Material {
+  const result = material.clone()
+  result.transparent = true
+  // Transparent surfaces don't hide each other, whatever order they are drawn in
+  result.depthWrite = false
+  return result
+}
+
+/**
+ * Tags a transparent mesh with the model space center of all its instances.
+ * Transparent meshes of a model share its origin, they are sorted by this center instead.
+ */
+function markTransparent (mesh: THREE.InstancedMesh) {
+  const sphere = new THREE.Sphere()
+  const instance = new THREE.Sphere()
+  const matrix = new THREE.Matrix4()
+  for (let i = 0; i < mesh.count; i++) {
+    mesh.getMatrixAt(i, matrix)
+    instance.copy(mesh.geometry.boundingSphere!).applyMatrix4(matrix)
+    if (i === 0) sphere.copy(instance)
+    else sphere.union(instance)
+  }
+  mesh.userData.transparent = true
+  mesh.userData.center = sphere.center
+}
@@ -1,16 +1,27 @@
+import * as THREE from 'three'
 import urlLogo from './assets/logo.png'
+import { ViewerSettings } from './viewerSettings'
 
 export class ViewerDocument {
   canvas: HTMLCanvasElement
   logo: HTMLImageElement
   link: HTMLAnchorElement
 
-  constructor (settings: any) {
+  // The canvas is only removed on dispose if it was created here
+  private ownsCanvas = false
+
+  // Rectangle drawn during box selection, created on first use
+  private selectionBox: HTMLDivElement | undefined
+  private onDrop: ((file: File) => void) | undefined
+  private unregisterDrop: Function | undefined
+
+  constructor (settings: ViewerSettings) {
     // Get or Add Canvas
     let canvas = document.getElementById(settings.canvasId)
     if (!canvas) {
       canvas = document.createElement('canvas')
       document.body.appendChild(canvas)
+      this.ownsCanvas = true
     }
     this.canvas = canvas as HTMLCanvasElement
 
@@ -31,4 +42,65 @@ export class ViewerDocument {
     document.body.prepend(link)
     this.link = link
   }
+
+  // Removes all elements and listeners added to the document
+  dispose () {
+    this.setDropZone(undefined)
+    this.link.remove()
+    this.selectionBox?.remove()
+    if (this.ownsCanvas) this.canvas.remove()
+  }
+
+  // Shows the box selection rectangle between two points in window pixels, dashed when crossing
+  showSelectionBox (
+    start: THREE.Vector2,
+    end: THREE.Vector2,
+    crossing: boolean
+  ) {
+    if (!this.selectionBox) {
+      const box = document.createElement('div')
+      box.style.position = 'fixed'
+      box.style.pointerEvents = 'none'
+      box.style.background = 'rgba(0, 85, 255, 0.1)'
+      document.body.appendChild(box)
+      this.selectionBox = box
+    }
+
+    const style = this.selectionBox.style
+    style.border = `1px ${crossing ? 'dashed' : 'solid'} #0055ff`
+    style.left = `${Math.min(start.x, end.x)}px`
+    style.top = `${Math.min(start.y, end.y)}px`
+    style.width = `${Math.abs(end.x - start.x)}px`
+    style.height = `${Math.abs(end.y - start.y)}px`
+    style.display = 'block'
+  }
+
+  hideSelectionBox () {
+    if (this.selectionBox) this.selectionBox.style.display = 'none'
+  }
+
+  // Calls onDrop for each file dropped on the canvas, undefined disables dropping
+  setDropZone (onDrop: ((file: File) => void) | undefined) {
+    if (onDrop === this.onDrop) return
+    this.unregisterDrop?.()
+    this.unregisterDrop = undefined
+    this.onDrop = onDrop
+    if (!onDrop) return
+
+    const onDragOver = (event: DragEvent) => {
+      event.preventDefault()
+      if (event.dataTransfer) event.dataTransfer.dropEffect = 'copy'
+    }
+    const onDropFiles = (event: DragEvent) => {
+      event.preventDefault()
+      Array.from(event.dataTransfer?.files ?? []).forEach((f) => onDrop(f))
+    }
+
+    this.canvas.addEventListener('dragover', onDragOver)
+    this.canvas.addEventListener('drop', onDropFiles)
+    this.unregisterDrop = () => {
+      this.canvas.removeEventListener('dragover', onDragOver)
+      this.canvas.removeEventListener('drop', onDropFiles)
+    }
+  }
 }
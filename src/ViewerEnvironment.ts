@@ -1,5 +1,6 @@
 import * as THREE from 'three'
 import { updateMaterial, toVec } from './viewer'
+import { ViewerSettings } from './viewerSettings'
 
 /*
 Vim Viewer
@@ -43,11 +44,19 @@ export class ViewerEnvironment {
     return new ViewerEnvironment(plane, skyLight, sunLight)
   }
 
+  dispose () {
+    const material = this.plane.material as THREE.Material
+    this.plane.geometry.dispose()
+    material.dispose()
+    this.skyLight.dispose()
+    this.sunLight.dispose()
+  }
+
   getElements (): THREE.Object3D[] {
     return [this.plane, this.skyLight, this.sunLight]
   }
 
-  applySettings (settings: any) {
+  applySettings (settings: ViewerSettings) {
     this.plane.visible = settings.plane.show
     if (this.plane.material instanceof THREE.MeshPhongMaterial) {
       updateMaterial(this.plane.material, settings.plane.material)
@@ -1,3 +1,6 @@
+import { BFastHeaderError } from './loadErrors'
+import { RemoteBuffer } from './remoteBuffer'
+
 class BFastHeader {
   magic: number
   dataStart: number
@@ -12,16 +15,16 @@ class BFastHeader {
     byteLength: number
   ) {
     if (magic !== 0xbfa5) {
-      throw new Error('Not a BFAST file, or endianness is swapped')
+      throw new BFastHeaderError('Not a BFAST file, or endianness is swapped')
     }
     if (dataStart <= 32 || dataStart > byteLength) {
-      throw new Error('Data start is out of valid range')
+      throw new BFastHeaderError('Data start is out of valid range')
     }
     if (dataEnd < dataStart || dataEnd > byteLength) {
-      throw new Error('Data end is out of vaid range')
+      throw new BFastHeaderError('Data end is out of vaid range')
     }
     if (numArrays < 0 || numArrays > dataEnd) {
-      throw new Error('Number of arrays is invalid')
+      throw new BFastHeaderError('Number of arrays is invalid')
     }
 
     this.magic = magic
@@ -34,10 +37,14 @@ class BFastHeader {
     // Check validity of data
     // TODO: check endianness
 
-    if (array[1] !== 0) throw new Error('Expected 0 in byte position 0')
-    if (array[3] !== 0) throw new Error('Expected 0 in byte position 8')
-    if (array[5] !== 0) throw new Error('Expected 0 in position 16')
-    if (array[7] !== 0) throw new Error('Expected 0 in position 24')
+    if (array[1] !== 0) {
+      throw new BFastHeaderError('Expected 0 in byte position 0')
+    }
+    if (array[3] !== 0) {
+      throw new BFastHeaderError('Expected 0 in byte position 8')
+    }
+    if (array[5] !== 0) throw new BFastHeaderError('Expected 0 in position 16')
+    if (array[7] !== 0) throw new BFastHeaderError('Expected 0 in position 24')
 
     return new this(array[0], array[2], array[4], array[6], byteLength)
   }
@@ -55,4 +62,159 @@ class BFast {
   }
 }
 
-export { BFastHeader, BFast }
+// Size in bytes of the header and of each range entry
+const headerSize = 32
+const rangeSize = 16
+
+/**
+ * Reads the [begin, end) byte range of each buffer from the range table.
+ * The table must start at index 0 of the given data.
+ */
+function parseBFastRanges (
+  data: Int32Array,
+  header: BFastHeader
+): [number, number][] {
+  const ranges: [number, number][] = []
+  let pos = 0
+  for (let i = 0; i < header.numArrays; ++i) {
+    const begin = data[pos + 0]
+    const end = data[pos + 2]
+
+    // Check validity of data
+    if (data[pos + 1] !== 0) {
+      throw new BFastHeaderError('Expected 0 in position ' + (pos + 1) * 4)
+    }
+    if (data[pos + 3] !== 0) {
+      throw new BFastHeaderError('Expected 0 in position ' + (pos + 3) * 4)
+    }
+    if (begin < header.dataStart || begin > header.dataEnd) {
+      throw new BFastHeaderError('Buffer start is out of range')
+    }
+    if (end < begin || end > header.dataEnd) {
+      throw new BFastHeaderError('Buffer end is out of range')
+    }
+
+    pos += 4
+    ranges.push([begin, end])
+  }
+  return ranges
+}
+
+// Names are stored in the first buffer as '\0' terminated strings
+function parseBFastNames (bytes: Uint8Array): string[] {
+  const joinedNames = new TextDecoder('utf-8').decode(bytes)
+
+  // Removing the trailing '\0' before spliting the names
+  if (joinedNames.length === 0) return []
+  return joinedNames.slice(0, -1).split('\0')
+}
+
+// BFAST is the container format for an array of binary arrays
+function parseBFast (
+  arrayBuffer: ArrayBuffer,
+  byteOffset: number = 0,
+  byteLength: number = arrayBuffer.byteLength - byteOffset
+): BFast {
+  // Cast the input data to 32-bit integers
+  // Note that according to the spec they are 64 bit numbers. In JavaScript you can't have 64 bit integers,
+  // and it would bust the amount of memory we can work with in most browsers and low-power devices
+  const data = new Int32Array(arrayBuffer, byteOffset, byteLength / 4)
+
+  // Parse the header
+  const header = BFastHeader.fromArray(data, byteLength)
+
+  // Compute each buffer, range table starts right after the header
+  const ranges = parseBFastRanges(data.subarray(headerSize / 4), header)
+  const buffers = ranges.map(
+    ([begin, end]) =>
+      new Uint8Array(arrayBuffer, begin + byteOffset, end - begin)
+  )
+
+  if (buffers.length < 1) {
+    throw new BFastHeaderError(
+      'Expected at least one buffer containing the names'
+    )
+  }
+
+  // break the first one up into names
+  const names = parseBFastNames(buffers[0])
+
+  // Validate the number of names
+  if (names.length !== buffers.length - 1) {
+    throw new BFastHeaderError(
+      'Expected number of names to be equal to the number of buffers - 1'
+    )
+  }
+
+  return new BFast(header, names, buffers.slice(1))
+}
+
+function parseBFastFromArray (bytes: Uint8Array): BFast {
+  return parseBFast(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+}
+
+/**
+ * A BFAST whose buffers are fetched individually from a remote file,
+ * so that each buffer can be used as soon as it arrives.
+ */
+class RemoteBFast {
+  source: RemoteBuffer
+  header: BFastHeader | undefined
+  names: string[] = []
+  ranges: [number, number][] = []
+
+  constructor (source: RemoteBuffer) {
+    this.source = source
+  }
+
+  // Fetches the header, range table and names
+  async initialize () {
+    const headerBytes = await this.source.http(0, headerSize)
+    this.header = BFastHeader.fromArray(
+      toInt32Array(headerBytes),
+      this.source.size ?? Number.MAX_SAFE_INTEGER
+    )
+
+    const rangesEnd = headerSize + this.header.numArrays * rangeSize
+    const rangeBytes = await this.source.http(headerSize, rangesEnd)
+    const ranges = parseBFastRanges(toInt32Array(rangeBytes), this.header)
+    if (ranges.length < 1) {
+      throw new BFastHeaderError(
+        'Expected at least one buffer containing the names'
+      )
+    }
+
+    const nameBytes = await this.source.http(ranges[0][0], ranges[0][1])
+    this.names = parseBFastNames(nameBytes)
+    this.ranges = ranges.slice(1)
+
+    // Validate the number of names
+    if (this.names.length !== this.ranges.length) {
+      throw new BFastHeaderError(
+        'Expected number of names to be equal to the number of buffers - 1'
+      )
+    }
+  }
+
+  // Fetches the buffer with given name, undefined if there is no such buffer
+  async getBuffer (name: string): Promise<Uint8Array | undefined> {
+    const index = this.names.indexOf(name)
+    if (index < 0) return
+    const [begin, end] = this.ranges[index]
+    return this.source.http(begin, end)
+  }
+}
+
+function toInt32Array (bytes: Uint8Array): Int32Array {
+  return new Int32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4)
+}
+
+export {
+  BFastHeader,
+  BFast,
+  RemoteBFast,
+  parseBFast,
+  parseBFastFromArray,
+  parseBFastRanges,
+  parseBFastNames
+}
@@ -0,0 +1,297 @@
+/**
+ @author VIM / https://vimaec.com
+*/
+
+// Columns of an entity table, keyed by their full name such as 'numeric:Id' or 'index:Vim.Level:Level'
+type Columns = Map<string, Float64Array | Int32Array>
+
+export type EntityValue = number | string | undefined
+
+/**
+ * A named value attached to an entity, from the properties column of its table.
+ */
+export interface EntityProperty {
+  // Row of the entity in the table
+  entity: number
+  name: string | undefined
+  value: string | undefined
+}
+
+/**
+ * A parameter of an element, from the Vim.Parameter table.
+ */
+export interface ElementParameter {
+  name: string | undefined
+  group: string | undefined
+  value: string | undefined
+}
+
+/**
+ * The main properties of an element, with all of its parameters.
+ */
+export interface ElementProperties {
+  index: number
+  id: number | undefined
+  name: string | undefined
+  category: string | undefined
+  family: string | undefined
+  type: string | undefined
+  level: string | undefined
+  parameters: ElementParameter[]
+}
+
+const columnTypes = ['numeric', 'string', 'index']
+
+/**
+ * Typed access to the rows of an entity table.
+ * Strings are resolved, and relations give the row index in the related table.
+ */
+export class EntityTable {
+  name: string
+  private columns: Columns
+  private strings: string[]
+  // Rows of this table by the row they relate to, per relation, built on first use
+  private relatedRows = new Map<string, Map<number, number[]>>()
+  // Properties by entity row, built on first use
+  private entityProperties: Map<number, number[]> | undefined
+
+  constructor (name: string, columns: Columns, strings: string[]) {
+    this.name = name
+    this.columns = columns
+    this.strings = strings
+  }
+
+  getCount (): number {
+    for (const [key, column] of this.columns) {
+      if (columnTypes.includes(key.split(':')[0])) return column.length
+    }
+    return 0
+  }
+
+  // Full names of all columns, such as 'string:Name'
+  getColumnNames (): string[] {
+    return Array.from(this.columns.keys()).filter((key) =>
+      columnTypes.includes(key.split(':')[0])
+    )
+  }
+
+  getNumber (column: string, row: number): number | undefined {
+    return this.columns.get(`numeric:${column}`)?.[row]
+  }
+
+  getString (column: string, row: number): string | undefined {
+    return this.getStringAt(this.columns.get(`string:${column}`)?.[row])
+  }
+
+  /**
+   * Returns the row related to given row, undefined if there is none.
+   * @param relation related table and relation name, such as 'Vim.Level:Level'
+   */
+  getIndex (relation: string, row: number): number | undefined {
+    const index = this.columns.get(`index:${relation}`)?.[row]
+    return index === undefined || index < 0 ? undefined : index
+  }
+
+  // Returns the rows of this table related to given row of the other table
+  getRowsRelatedTo (relation: string, target: number): number[] {
+    let rows = this.relatedRows.get(relation)
+    if (!rows) {
+      rows = new Map()
+      const column = this.columns.get(`index:${relation}`) ?? []
+      for (let row = 0; row < column.length; row++) {
+        const related = rows.get(column[row])
+        if (related) related.push(row)
+        else rows.set(column[row], [row])
+      }
+      this.relatedRows.set(relation, rows)
+    }
+    return rows.get(target) ?? []
+  }
+
+  // Number of properties of all entities of the table
+  getPropertyCount (): number {
+    const properties = this.columns.get('properties')
+    return properties ? properties.length / 3 : 0
+  }
+
+  getProperty (index: number): EntityProperty {
+    const properties = this.columns.get('properties')
+    return {
+      entity: properties[index * 3],
+      name: this.getStringAt(properties[index * 3 + 1]),
+      value: this.getStringAt(properties[index * 3 + 2])
+    }
+  }
+
+  // Properties of given row, in the order they were written
+  getEntityProperties (row: number): EntityProperty[] {
+    if (!this.entityProperties) {
+      this.entityProperties = new Map()
+      const properties = this.columns.get('properties') ?? []
+      for (let i = 0; i < properties.length / 3; i++) {
+        const entity = properties[i * 3]
+        const indices = this.entityProperties.get(entity)
+        if (indices) indices.push(i)
+        else this.entityProperties.set(entity, [i])
+      }
+    }
+    const indices = this.entityProperties.get(row) ?? []
+    return indices.map((i) => this.getProperty(i))
+  }
+
+  // All values of a row by column name, relations give the related row index
+  getRow (row: number): Record<string, EntityValue> {
+    const result: Record<string, EntityValue> = {}
+    this.getColumnNames().forEach((key) => {
+      const separator = key.indexOf(':')
+      const type = key.substring(0, separator)
+      const name = key.substring(separator + 1)
+      result[name] =
+        type === 'numeric'
+          ? this.getNumber(name, row)
+          : type === 'string'
+            ? this.getString(name, row)
+            : this.getIndex(name, row)
+    })
+    return result
+  }
+
+  private getStringAt (index: number | undefined): string | undefined {
+    return index === undefined || index < 0 ? undefined : this.strings[index]
+  }
+}
+
+/**
+ * The entity tables of a VIM, as parsed by VIMLoader.constructEntityTables.
+ */
+export class BimData {
+  private tables: Map<string, Columns>
+  private strings: string[]
+  private cache = new Map<string, EntityTable>()
+  // Element index by id, built on first use
+  private elementIndices: Map<number, number> | undefined
+
+  constructor (tables: Map<string, Columns>, strings: string[] = []) {
+    this.tables = tables
+    this.strings = strings
+  }
+
+  getTableNames (): string[] {
+    return Array.from(this.tables.keys())
+  }
+
+  getTable (name: string): EntityTable | undefined {
+    let table = this.cache.get(name)
+    if (!table) {
+      const columns = this.tables.get(name)
+      if (!columns) return
+      table = new EntityTable(name, columns, this.strings)
+      this.cache.set(name, table)
+    }
+    return table
+  }
+
+  getElementIndex (elementId: number): number | undefined {
+    if (!this.elementIndices) {
+      this.elementIndices = new Map()
+      const elements = this.getTable('Vim.Element')
+      const count = elements?.getCount() ?? 0
+      for (let i = 0; i < count; i++) {
+        this.elementIndices.set(elements.getNumber('Id', i), i)
+      }
+    }
+    return this.elementIndices.get(elementId)
+  }
+
+  /**
+   * Returns the properties of an element with all its parameters.
+   * Anything missing from the tables is left undefined.
+   * @param withParameters false leaves parameters empty, which is faster for many elements
+   */
+  getElementProperties (
+    elementIndex: number,
+    withParameters: boolean = true
+  ): ElementProperties {
+    const elements = this.getTable('Vim.Element')
+    const category = elements?.getIndex('Vim.Category:Category', elementIndex)
+    const level = elements?.getIndex('Vim.Level:Level', elementIndex)
+
+    // Family and type are found from the family instance of the element
+    const instance = this.getTable('Vim.FamilyInstance')?.getRowsRelatedTo(
+      'Vim.Element:Element',
+      elementIndex
+    )[0]
+    const type =
+      instance === undefined
+        ? undefined
+        : this.getTable('Vim.FamilyInstance').getIndex(
+          'Vim.FamilyType:FamilyType',
+          instance
+        )
+    const family =
+      type === undefined
+        ? undefined
+        : this.getTable('Vim.FamilyType')?.getIndex('Vim.Family:Family', type)
+
+    return {
+      index: elementIndex,
+      id: elements?.getNumber('Id', elementIndex),
+      name: elements?.getString('Name', elementIndex),
+      category: this.getTable('Vim.Category')?.getString('Name', category),
+      family:
+        this.getElementName('Vim.Family', family) ??
+        elements?.getString('FamilyName', elementIndex),
+      type: this.getElementName('Vim.FamilyType', type),
+      level: this.getElementName('Vim.Level', level),
+      parameters: withParameters ? this.getElementParameters(elementIndex) : []
+    }
+  }
+
+  // Parameters of an element, followed by the properties of its row, which have no group
+  getElementParameters (elementIndex: number): ElementParameter[] {
+    const parameters = this.getTable('Vim.Parameter')
+    const descriptors = this.getTable('Vim.ParameterDescriptor')
+    const properties = this.getTable('Vim.Element')
+      ?.getEntityProperties(elementIndex)
+      .map((p) => ({ name: p.name, group: undefined, value: p.value }))
+    if (!parameters) return properties ?? []
+
+    const result = parameters
+      .getRowsRelatedTo('Vim.Element:Element', elementIndex)
+      .map((row) => {
+        const descriptor = parameters.getIndex(
+          'Vim.ParameterDescriptor:ParameterDescriptor',
+          row
+        )
+        return {
+          name: descriptors?.getString('Name', descriptor),
+          group: descriptors?.getString('Group', descriptor),
+          value: parameters.getString('Value', row)
+        }
+      })
+    return properties ? result.concat(properties) : result
+  }
+
+  /**
+   * Returns the label of the unit lengths are displayed in, such as 'ft' or 'mm'.
+   * Found in the Vim.DisplayUnit table, undefined when the VIM doesn't have it.
+   */
+  getLengthUnit (): string | undefined {
+    const units = this.getTable('Vim.DisplayUnit')
+    const count = units?.getCount() ?? 0
+    for (let row = 0; row < count; row++) {
+      // Such as 'UT_Length' or 'autodesk.spec.aec:length-2.0.0'
+      if (!/length/i.test(units.getString('Spec', row) ?? '')) continue
+      const label = units.getString('Label', row)
+      if (label) return label
+    }
+  }
+
+  // Name of the element of an entity such as a level or a family
+  private getElementName (table: string, row: number | undefined) {
+    if (row === undefined) return
+    const element = this.getTable(table)?.getIndex('Vim.Element:Element', row)
+    if (element === undefined) return
+    return this.getTable('Vim.Element')?.getString('Name', element)
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ @author VIM / https://vimaec.com
+*/
+
+import * as THREE from 'three'
+import { Model } from './model'
+
+/**
+ * Returns the nodes of a model whose bounding box on screen is inside the rectangle,
+ * or touches it when crossing is true. The rectangle is in normalized device coordinates.
+ * Nodes partially behind the camera, hidden or ghosted are never included.
+ */
+export function getNodesInRect (
+  model: Model,
+  camera: THREE.Camera,
+  rect: THREE.Box2,
+  crossing: boolean
+): number[] {
+  const vimScene = model.vimScene
+  if (!vimScene) return []
+
+  // Model space to clip space
+  const m = new THREE.Matrix4()
+    .multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse)
+    .multiply(model.matrix).elements
+
+  const result: number[] = []
+  const box = new THREE.Box3()
+  const screen = new THREE.Box2()
+  const point = new THREE.Vector2()
+  for (let node = 0; node < vimScene.getNodeCount(); node++) {
+    if (!vimScene.getNodeBoundingBox(node, box)) continue
+    if (vimScene.getNodeVisibility(node) !== 'visible') continue
+
+    screen.makeEmpty()
+    let behind = false
+    for (let i = 0; i < 8 && !behind; i++) {
+      const x = i & 1 ? box.max.x : box.min.x
+      const y = i & 2 ? box.max.y : box.min.y
+      const z = i & 4 ? box.max.z : box.min.z
+      const w = m[3] * x + m[7] * y + m[11] * z + m[15]
+      behind = w <= 0
+      point.set(
+        (m[0] * x + m[4] * y + m[8] * z + m[12]) / w,
+        (m[1] * x + m[5] * y + m[9] * z + m[13]) / w
+      )
+      screen.expandByPoint(point)
+    }
+    if (behind) continue
+
+    if (crossing ? rect.intersectsBox(screen) : rect.containsBox(screen)) {
+      result.push(node)
+    }
+  }
+  return result
+}
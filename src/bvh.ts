@@ -0,0 +1,197 @@
+/**
+ @author VIM / https://vimaec.com
+*/
+
+// This module must not depend on three.js, it runs inside the geometry worker.
+
+/**
+ * Bounding volume hierarchy over a list of boxes, stored in flat transferable arrays.
+ * Nodes are in depth first order, the left child of an inner node directly follows it.
+ */
+export interface BvhData {
+  // [minX, minY, minZ, maxX, maxY, maxZ] per node
+  bounds: Float32Array
+  // Per node, right child index and 0 for inner nodes, or first item and item count for leaves
+  nodes: Uint32Array
+  // Item indices, referenced by leaves
+  items: Uint32Array
+}
+
+// Max items per leaf
+const leafSize = 8
+
+/**
+ * Builds a hierarchy over boxes given as [minX, minY, minZ, maxX, maxY, maxZ] per item.
+ * Items are split in half along the longest axis of their centers.
+ */
+export function buildBvh (boxes: Float32Array): BvhData {
+  const count = boxes.length / 6
+  const items = new Uint32Array(count)
+  // A leaf without items would read as an inner node
+  if (count === 0) {
+    return { bounds: new Float32Array(0), nodes: new Uint32Array(0), items }
+  }
+  for (let i = 0; i < count; i++) items[i] = i
+
+  // Arrays grow as needed, leaves are usually half full
+  const capacity = Math.max(1, Math.ceil(count / leafSize) * 4)
+  let bounds = new Float32Array(capacity * 6)
+  let nodes = new Uint32Array(capacity * 2)
+  let nodeCount = 0
+
+  // [start, end, parent waiting for its right child or -1]
+  const stack: number[] = [0, count, -1]
+  const center = new Float32Array(6)
+  while (stack.length) {
+    const parent = stack.pop()
+    const end = stack.pop()
+    const start = stack.pop()
+
+    if (nodeCount === nodes.length / 2) {
+      bounds = grow(bounds, new Float32Array(bounds.length * 2))
+      nodes = grow(nodes, new Uint32Array(nodes.length * 2))
+    }
+    const node = nodeCount++
+    if (parent >= 0) nodes[parent * 2] = node
+
+    // Bounds of the boxes and of their centers
+    const box = bounds.subarray(node * 6, node * 6 + 6)
+    box.set(emptyBox)
+    center.set(emptyBox)
+    for (let i = start; i < end; i++) {
+      const item = items[i] * 6
+      for (let axis = 0; axis < 3; axis++) {
+        const min = boxes[item + axis]
+        const max = boxes[item + axis + 3]
+        const mid = (min + max) * 0.5
+        box[axis] = Math.min(box[axis], min)
+        box[axis + 3] = Math.max(box[axis + 3], max)
+        center[axis] = Math.min(center[axis], mid)
+        center[axis + 3] = Math.max(center[axis + 3], mid)
+      }
+    }
+
+    if (end - start <= leafSize) {
+      nodes[node * 2] = start
+      nodes[node * 2 + 1] = end - start
+      continue
+    }
+
+    let axis = 0
+    for (let a = 1; a < 3; a++) {
+      if (center[a + 3] - center[a] > center[axis + 3] - center[axis]) axis = a
+    }
+    const split = (center[axis] + center[axis + 3]) * 0.5
+
+    // Partition items around the split
+    let left = start
+    let right = end - 1
+    while (left <= right) {
+      const item = items[left] * 6
+      if ((boxes[item + axis] + boxes[item + axis + 3]) * 0.5 < split) {
+        left++
+      } else {
+        const swap = items[left]
+        items[left] = items[right]
+        items[right--] = swap
+      }
+    }
+    // All centers on one side, split in the middle
+    if (left === start || left === end) left = (start + end) >> 1
+
+    nodes[node * 2 + 1] = 0
+    // Left is popped first so it directly follows its parent
+    stack.push(left, end, node, start, left, -1)
+  }
+
+  return {
+    bounds: bounds.slice(0, nodeCount * 6),
+    nodes: nodes.slice(0, nodeCount * 2),
+    items
+  }
+}
+
+/**
+ * Builds a hierarchy over the triangles of an indexed mesh, items are triangle indices.
+ */
+export function buildTriangleBvh (
+  positions: Float32Array,
+  indices: Uint32Array
+): BvhData {
+  const count = indices.length / 3
+  const boxes = new Float32Array(count * 6)
+  for (let triangle = 0; triangle < count; triangle++) {
+    const box = triangle * 6
+    boxes.set(emptyBox, box)
+    for (let corner = 0; corner < 3; corner++) {
+      const vertex = indices[triangle * 3 + corner] * 3
+      for (let axis = 0; axis < 3; axis++) {
+        const value = positions[vertex + axis]
+        boxes[box + axis] = Math.min(boxes[box + axis], value)
+        boxes[box + axis + 3] = Math.max(boxes[box + axis + 3], value)
+      }
+    }
+  }
+  return buildBvh(boxes)
+}
+
+/**
+ * Calls back with every item whose box is hit by the ray, in no particular order.
+ * Other items of the leaves hit are also given, callers test each item themselves.
+ */
+export function raycastBvh (
+  bvh: BvhData,
+  origin: ArrayLike<number>,
+  direction: ArrayLike<number>,
+  callback: (item: number) => void
+) {
+  if (bvh.nodes.length === 0) return
+  const inverse = [1 / direction[0], 1 / direction[1], 1 / direction[2]]
+
+  const stack = [0]
+  while (stack.length) {
+    const node = stack.pop()
+    if (!intersectsBox(bvh.bounds, node * 6, origin, inverse)) continue
+
+    const count = bvh.nodes[node * 2 + 1]
+    if (count === 0) {
+      stack.push(bvh.nodes[node * 2], node + 1)
+      continue
+    }
+    const start = bvh.nodes[node * 2]
+    for (let i = start; i < start + count; i++) callback(bvh.items[i])
+  }
+}
+
+// Slab test of a ray against a box, with the inverse of the ray direction
+function intersectsBox (
+  bounds: Float32Array,
+  offset: number,
+  origin: ArrayLike<number>,
+  inverse: number[]
+): boolean {
+  let near = 0
+  let far = Infinity
+  for (let axis = 0; axis < 3; axis++) {
+    let t0 = (bounds[offset + axis] - origin[axis]) * inverse[axis]
+    let t1 = (bounds[offset + axis + 3] - origin[axis]) * inverse[axis]
+    if (t0 > t1) {
+      const swap = t0
+      t0 = t1
+      t1 = swap
+    }
+    // NaN happens with a zero direction on the box side, which never misses
+    if (t0 > near) near = t0
+    if (t1 < far) far = t1
+    if (near > far) return false
+  }
+  return true
+}
+
+// Copies an array at the start of a larger one
+function grow<T extends Float32Array | Uint32Array> (array: T, result: T): T {
+  result.set(array)
+  return result
+}
+
+const emptyBox = [Infinity, Infinity, Infinity, -Infinity, -Infinity, -Infinity]
@@ -0,0 +1,132 @@
+/**
+ @author VIM / https://vimaec.com
+*/
+
+import * as THREE from 'three'
+import { BvhData, raycastBvh } from './bvh'
+
+/**
+ * Replaces the raycast of an instanced mesh with one that only tests the triangles
+ * found through its hierarchies. Hits are the same as THREE.InstancedMesh.raycast,
+ * except for nodes which are hidden or ghosted according to the visibility attribute.
+ * @param bvh triangles of the geometry, in geometry space
+ * @param instanceBvh boxes of the instances in mesh space, when omitted all instances are tested
+ */
+export function setBvhRaycast (
+  mesh: THREE.InstancedMesh,
+  bvh: BvhData,
+  instanceBvh?: BvhData
+) {
+  mesh.raycast = (raycaster, intersects) => {
+    // Ray in mesh space
+    const meshRay = raycaster.ray
+      .clone()
+      .applyMatrix4(mesh.matrixWorld.clone().invert())
+
+    const testInstance = (instance: number) =>
+      raycastInstance(mesh, instance, bvh, meshRay, raycaster, intersects)
+
+    if (instanceBvh) {
+      raycastBvh(
+        instanceBvh,
+        meshRay.origin.toArray(),
+        meshRay.direction.toArray(),
+        testInstance
+      )
+    } else {
+      for (let i = 0; i < mesh.count; i++) testInstance(i)
+    }
+  }
+}
+
+// Scratch objects, raycasts are synchronous
+const instanceMatrix = new THREE.Matrix4()
+const worldMatrix = new THREE.Matrix4()
+const localRay = new THREE.Ray()
+const a = new THREE.Vector3()
+const b = new THREE.Vector3()
+const c = new THREE.Vector3()
+const point = new THREE.Vector3()
+
+function raycastInstance (
+  mesh: THREE.InstancedMesh,
+  instance: number,
+  bvh: BvhData,
+  meshRay: THREE.Ray,
+  raycaster: THREE.Raycaster,
+  intersects: THREE.Intersection[]
+) {
+  mesh.getMatrixAt(instance, instanceMatrix)
+  worldMatrix.multiplyMatrices(mesh.matrixWorld, instanceMatrix)
+  localRay.copy(meshRay).applyMatrix4(instanceMatrix.invert())
+
+  const geometry = mesh.geometry
+  const position = geometry.getAttribute('position')
+  const index = geometry.getIndex()
+  const uv = geometry.getAttribute('uv') as THREE.BufferAttribute
+  const side = (mesh.material as THREE.Material).side
+
+  // Per instance, or per vertex on merged meshes
+  const visibility = geometry.getAttribute('visibility')
+  const perInstance = visibility instanceof THREE.InstancedBufferAttribute
+  if (perInstance && visibility.getX(instance) !== 0) return
+
+  raycastBvh(
+    bvh,
+    localRay.origin.toArray(),
+    localRay.direction.toArray(),
+    (triangle) => {
+      const i0 = index.getX(triangle * 3)
+      const i1 = index.getX(triangle * 3 + 1)
+      const i2 = index.getX(triangle * 3 + 2)
+      if (visibility && !perInstance && visibility.getX(i0) !== 0) return
+      a.fromBufferAttribute(position, i0)
+      b.fromBufferAttribute(position, i1)
+      c.fromBufferAttribute(position, i2)
+
+      const hit =
+        side === THREE.BackSide
+          ? localRay.intersectTriangle(c, b, a, true, point)
+          : localRay.intersectTriangle(
+            a,
+            b,
+            c,
+            side !== THREE.DoubleSide,
+            point
+          )
+      if (!hit) return
+
+      const world = point.clone().applyMatrix4(worldMatrix)
+      const distance = raycaster.ray.origin.distanceTo(world)
+      if (distance < raycaster.near || distance > raycaster.far) return
+
+      const face = {
+        a: i0,
+        b: i1,
+        c: i2,
+        normal: THREE.Triangle.getNormal(a, b, c, new THREE.Vector3()),
+        materialIndex: 0
+      }
+      intersects.push({
+        distance,
+        point: world,
+        object: mesh,
+        face,
+        faceIndex: triangle,
+        instanceId: instance,
+        uv: uv
+          ? THREE.Triangle.getUV(
+            point,
+            a,
+            b,
+            c,
+            new THREE.Vector2().fromBufferAttribute(uv, i0),
+            new THREE.Vector2().fromBufferAttribute(uv, i1),
+            new THREE.Vector2().fromBufferAttribute(uv, i2),
+            new THREE.Vector2()
+          )
+          : undefined
+      })
+    }
+  )
+}
@@ -0,0 +1,49 @@
+/**
+ @author VIM / https://vimaec.com
+*/
+
+import * as THREE from 'three'
+
+/**
+ * Elements sharing a value, and the color they are shown with.
+ */
+export interface LegendEntry {
+  value: string | number
+  color: THREE.Color
+  elementIds: number[]
+}
+
+/**
+ * Groups elements by value and gives each group a distinct color, sorted by value.
+ * Elements without a value are left out.
+ * @param values value of each element id, such as a parameter or a status
+ * @param palette colors used in order, generated when there are not enough
+ */
+export function buildLegend (
+  values: Map<number, string | number | undefined>,
+  palette: THREE.Color[] = []
+): LegendEntry[] {
+  const groups = new Map<string | number, number[]>()
+  values.forEach((value, elementId) => {
+    if (value === undefined) return
+    const group = groups.get(value)
+    if (group) group.push(elementId)
+    else groups.set(value, [elementId])
+  })
+
+  const sorted = Array.from(groups.keys()).sort((a, b) =>
+    typeof a === 'number' && typeof b === 'number'
+      ? a - b
+      : String(a).localeCompare(String(b))
+  )
+  return sorted.map((value, i) => ({
+    value,
+    color: palette[i]?.clone() ?? getLegendColor(i),
+    elementIds: groups.get(value)
+  }))
+}
+
+// Hues spread by the golden ratio stay apart from each other however many are used
+function getLegendColor (index: number): THREE.Color {
+  return new THREE.Color().setHSL((index * 0.618033988749895) % 1, 0.7, 0.5)
+}
@@ -0,0 +1,126 @@
+/**
+ @author VIM / https://vimaec.com
+*/
+
+import { BimData } from './bim'
+import { VimScene } from './vim'
+
+/**
+ * Matches a text value. A string matches that exact value,
+ * contains matches ignoring case, min and max match the number the value starts with.
+ */
+export type ValueFilter =
+  | string
+  | {
+      equals?: string
+      contains?: string
+      min?: number
+      max?: number
+    }
+
+// Matches the elements with a parameter of that name whose value matches
+export type ParameterFilter = Exclude<ValueFilter, string> & { name: string }
+
+/**
+ * Finds elements by their properties, elements must match all given filters.
+ */
+export interface ElementQuery {
+  name?: ValueFilter
+  category?: ValueFilter
+  family?: ValueFilter
+  type?: ValueFilter
+  level?: ValueFilter
+  parameter?: ParameterFilter | ParameterFilter[]
+}
+
+const propertyFilters = ['name', 'category', 'family', 'type', 'level'] as const
+
+/**
+ * Returns the ids of the elements with nodes matching a query, in node order.
+ * Nothing matches until the bim is loaded.
+ */
+export function queryElements (
+  vimScene: VimScene,
+  query: ElementQuery
+): number[] {
+  const bim = vimScene.getBim()
+  if (!bim) return []
+
+  const parameterFilters = Array.isArray(query.parameter)
+    ? query.parameter
+    : query.parameter
+      ? [query.parameter]
+      : []
+  const parameterMatches = parameterFilters.map((f) =>
+    getElementsWithParameter(bim, f)
+  )
+  const filters = propertyFilters.filter((key) => query[key] !== undefined)
+
+  const result: number[] = []
+  vimScene.elementToNodes.forEach((_, elementId) => {
+    const index = bim.getElementIndex(elementId)
+    if (index === undefined) return
+    if (!parameterMatches.every((m) => m.has(index))) return
+    if (filters.length) {
+      const properties = bim.getElementProperties(index, false)
+      if (!filters.every((key) => matchValue(properties[key], query[key]))) {
+        return
+      }
+    }
+    result.push(elementId)
+  })
+  return result
+}
+
+function matchValue (value: string | undefined, filter: ValueFilter): boolean {
+  if (value === undefined) return false
+  if (typeof filter === 'string') return value === filter
+  if (filter.equals !== undefined && value !== filter.equals) return false
+  if (
+    filter.contains !== undefined &&
+    !value.toLowerCase().includes(filter.contains.toLowerCase())
+  ) {
+    return false
+  }
+  if (filter.min !== undefined || filter.max !== undefined) {
+    const number = parseFloat(value)
+    if (isNaN(number)) return false
+    if (filter.min !== undefined && number < filter.min) return false
+    if (filter.max !== undefined && number > filter.max) return false
+  }
+  return true
+}
+
+// Indices of the elements with a parameter or property matching given filter
+function getElementsWithParameter (
+  bim: BimData,
+  filter: ParameterFilter
+): Set<number> {
+  const result = new Set<number>()
+
+  // Properties of the element table
+  const elements = bim.getTable('Vim.Element')
+  const propertyCount = elements?.getPropertyCount() ?? 0
+  for (let i = 0; i < propertyCount; i++) {
+    const property = elements.getProperty(i)
+    if (property.name !== filter.name) continue
+    if (matchValue(property.value, filter)) result.add(property.entity)
+  }
+
+  const parameters = bim.getTable('Vim.Parameter')
+  const descriptors = bim.getTable('Vim.ParameterDescriptor')
+  if (!parameters || !descriptors) return result
+
+  const count = parameters.getCount()
+  for (let row = 0; row < count; row++) {
+    const descriptor = parameters.getIndex(
+      'Vim.ParameterDescriptor:ParameterDescriptor',
+      row
+    )
+    if (descriptors.getString('Name', descriptor) !== filter.name) continue
+    if (!matchValue(parameters.getString('Value', row), filter)) continue
+    const element = parameters.getIndex('Vim.Element:Element', row)
+    if (element !== undefined) result.add(element)
+  }
+  return result
+}
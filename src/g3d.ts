@@ -1,3 +1,6 @@
+import { G3dValidationError } from './loadErrors'
+import { BFast } from './bfast'
+
 class AttributeDescriptor {
   // original descriptor string
   description: string
@@ -21,7 +24,7 @@ class AttributeDescriptor {
     dataArity: string
   ) {
     if (!description.startsWith('g3d:')) {
-      throw new Error(`${description} must start with 'g3d'`)
+      throw new G3dValidationError(`${description} must start with 'g3d'`)
     }
 
     this.description = description
@@ -36,7 +39,9 @@ class AttributeDescriptor {
     const desc = descriptor.split(':')
 
     if (desc.length !== 6) {
-      throw new Error(`${descriptor}, must have 6 components delimited by ':'`)
+      throw new G3dValidationError(
+        `${descriptor}, must have 6 components delimited by ':'`
+      )
     }
 
     return new this(descriptor, desc[1], desc[2], desc[3], desc[4], desc[5])
@@ -54,10 +59,38 @@ class AttributeDescriptor {
   }
 }
 
+export type AttributeData =
+  | Int8Array
+  | Uint8Array
+  | Int16Array
+  | Uint16Array
+  | Int32Array
+  | Uint32Array
+  | Float32Array
+  | Float64Array
+
+// Typed array of each data type, 64 bit integers are decoded to doubles
+const dataTypes: Record<
+  string,
+  {
+    new (buffer: ArrayBuffer, byteOffset: number, length: number): AttributeData
+    BYTES_PER_ELEMENT: number
+  }
+> = {
+  int8: Int8Array,
+  uint8: Uint8Array,
+  int16: Int16Array,
+  uint16: Uint16Array,
+  int32: Int32Array,
+  uint32: Uint32Array,
+  float32: Float32Array,
+  float64: Float64Array
+}
+
 class Attribute {
   descriptor: AttributeDescriptor
   bytes: Uint8Array
-  data: Uint8Array | Int16Array | Int32Array | Float32Array | Float64Array
+  data: AttributeData
 
   constructor (descriptor: AttributeDescriptor, bytes: Uint8Array) {
     this.descriptor = descriptor
@@ -70,44 +103,61 @@ class Attribute {
   }
 
   // Converts a VIM attribute into a typed array from its raw data
-  static castData (
-    bytes: Uint8Array,
-    dataType: string
-  ): Uint8Array | Int16Array | Int32Array | Float32Array | Float64Array {
-    // This is a UInt8 array
-
-    switch (dataType) {
-      case 'float32':
-        return new Float32Array(
-          bytes.buffer,
-          bytes.byteOffset,
-          bytes.byteLength / 4
-        )
-      case 'float64':
-        throw new Float64Array(
-          bytes.buffer,
-          bytes.byteOffset,
-          bytes.byteLength / 8
-        )
-      case 'int8':
-        return bytes
-      case 'int16':
-        return new Int16Array(
-          bytes.buffer,
-          bytes.byteOffset,
-          bytes.byteLength / 2
-        )
-      case 'int32':
-        return new Int32Array(
-          bytes.buffer,
-          bytes.byteOffset,
-          bytes.byteLength / 4
-        )
-      // case "int64": return new Int64Array(data.buffer, data.byteOffset, data.byteLength / 8);
-      default:
-        throw new Error('Unrecognized attribute data type ' + dataType)
+  static castData (bytes: Uint8Array, dataType: string): AttributeData {
+    if (dataType === 'int64' || dataType === 'uint64') {
+      return castInt64(bytes, dataType === 'int64')
+    }
+
+    const ArrayType = dataTypes[dataType]
+    if (!ArrayType) {
+      throw new G3dValidationError(
+        'Unrecognized attribute data type ' + dataType
+      )
+    }
+    if (bytes.byteLength % ArrayType.BYTES_PER_ELEMENT !== 0) {
+      throw new G3dValidationError(
+        `Invalid ${dataType} attribute of ${bytes.byteLength} bytes`
+      )
+    }
+    // Typed arrays must start at a multiple of their element size
+    const aligned =
+      bytes.byteOffset % ArrayType.BYTES_PER_ELEMENT === 0
+        ? bytes
+        : bytes.slice()
+    return new ArrayType(
+      aligned.buffer,
+      aligned.byteOffset,
+      aligned.byteLength / ArrayType.BYTES_PER_ELEMENT
+    )
+  }
+}
+
+/**
+ * Decodes little endian 64 bit integers to doubles.
+ * Throws if a value is beyond the integers doubles represent exactly.
+ */
+function castInt64 (bytes: Uint8Array, signed: boolean): Float64Array {
+  if (bytes.byteLength % 8 !== 0) {
+    throw new G3dValidationError(
+      `Invalid 64 bit attribute of ${bytes.byteLength} bytes`
+    )
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const result = new Float64Array(bytes.byteLength / 8)
+  for (let i = 0; i < result.length; i++) {
+    const low = view.getUint32(i * 8, true)
+    const high = signed
+      ? view.getInt32(i * 8 + 4, true)
+      : view.getUint32(i * 8 + 4, true)
+    const value = high * 2 ** 32 + low
+    if (!Number.isSafeInteger(value)) {
+      throw new G3dValidationError(
+        `64 bit attribute value at ${i} is too large to be decoded`
+      )
     }
+    result[i] = value
   }
+  return result
 }
 
 class G3d {
@@ -119,6 +169,36 @@ class G3d {
     this.attributes = attributes
   }
 
+  // Given a BFAST container (header/names/buffers) constructs a G3D data structure
+  static fromBFast (bfast: BFast): G3d {
+    if (bfast.buffers.length < 2) {
+      throw new G3dValidationError('G3D requires at least two BFast buffers')
+    }
+
+    // Parse first buffer as Meta
+    const metaBuffer = bfast.buffers[0]
+    if (bfast.names[0] !== 'meta') {
+      throw new G3dValidationError(
+        "First G3D buffer must be named 'meta', but was named: " +
+          bfast.names[0]
+      )
+    }
+    const meta = new TextDecoder('utf-8').decode(metaBuffer)
+
+    // Parse remaining buffers as Attributes
+    const attributes: Attribute[] = []
+    const nDescriptors = bfast.buffers.length - 1
+    for (let i = 0; i < nDescriptors; ++i) {
+      const attribute = Attribute.fromString(
+        bfast.names[i + 1],
+        bfast.buffers[i + 1]
+      )
+      attributes.push(attribute)
+    }
+
+    return new this(meta, attributes)
+  }
+
   findAttribute (descriptor: string): Attribute | null {
     const filter = AttributeDescriptor.fromString(descriptor)
     for (let i = 0; i < this.attributes.length; ++i) {
@@ -131,9 +211,11 @@ class G3d {
 
 class VimAttributes {
   static position = 'g3d:vertex:position:0:float32:3'
+  static positionDouble = 'g3d:vertex:position:0:float64:3'
   static indices = 'g3d:corner:index:0:int32:1'
   static instanceMeshes = 'g3d:instance:mesh:0:int32:1'
   static instanceTransforms = 'g3d:instance:transform:0:float32:16'
+  static instanceTransformsDouble = 'g3d:instance:transform:0:float64:16'
   static meshSubmeshes = 'g3d:mesh:submeshoffset:0:int32:1'
   static submeshIndexOffsets = 'g3d:submesh:indexoffset:0:int32:1'
   static submeshMaterials = 'g3d:submesh:material:0:int32:1'
@@ -141,10 +223,11 @@ class VimAttributes {
 }
 
 class VimG3d {
-  positions: Float32Array
+  // Double precision for georeferenced models far from the origin
+  positions: Float32Array | Float64Array
   indices: Int32Array
   instanceMeshes: Int32Array
-  instanceTransforms: Float32Array
+  instanceTransforms: Float32Array | Float64Array
   meshSubmeshes: Int32Array
   submeshIndexOffset: Int32Array
   submeshMaterial: Int32Array
@@ -158,8 +241,10 @@ class VimG3d {
   constructor (g3d: G3d) {
     this.rawG3d = g3d
 
-    this.positions = g3d.findAttribute(VimAttributes.position)
-      ?.data as Float32Array
+    this.positions = (
+      g3d.findAttribute(VimAttributes.position) ??
+      g3d.findAttribute(VimAttributes.positionDouble)
+    )?.data as Float32Array | Float64Array
 
     this.indices = g3d.findAttribute(VimAttributes.indices)?.data as Int32Array
 
@@ -179,9 +264,10 @@ class VimG3d {
     this.instanceMeshes = g3d.findAttribute(VimAttributes.instanceMeshes)
       ?.data as Int32Array
 
-    this.instanceTransforms = g3d.findAttribute(
-      VimAttributes.instanceTransforms
-    )?.data as Float32Array
+    this.instanceTransforms = (
+      g3d.findAttribute(VimAttributes.instanceTransforms) ??
+      g3d.findAttribute(VimAttributes.instanceTransformsDouble)
+    )?.data as Float32Array | Float64Array
   }
 
   getInstanceCount = () => this.instanceMeshes.length
@@ -206,13 +292,112 @@ class VimG3d {
     return [start, end]
   }
 
-  getTransformMatrixAsArray (tranformIndex: number): Float32Array {
+  getTransformMatrixAsArray (
+    tranformIndex: number
+  ): Float32Array | Float64Array {
     return this.instanceTransforms.subarray(
       tranformIndex * this.matrixArity,
       (tranformIndex + 1) * this.matrixArity
     )
   }
 
+  /**
+   * Returns the center of the box around all instances, in double precision.
+   * Zero when there are no instances with geometry.
+   */
+  getCenter (): number[] {
+    const meshBoxes = this.getMeshBoxes()
+    const min = [Infinity, Infinity, Infinity]
+    const max = [-Infinity, -Infinity, -Infinity]
+    for (let instance = 0; instance < this.getInstanceCount(); instance++) {
+      const mesh = this.instanceMeshes[instance]
+      if (mesh < 0) continue
+      const box = meshBoxes.subarray(mesh * 6, mesh * 6 + 6)
+      if (box[0] > box[3]) continue
+      const m = this.getTransformMatrixAsArray(instance)
+      for (let corner = 0; corner < 8; corner++) {
+        const x = box[corner & 1 ? 3 : 0]
+        const y = box[corner & 2 ? 4 : 1]
+        const z = box[corner & 4 ? 5 : 2]
+        for (let axis = 0; axis < 3; axis++) {
+          const value =
+            m[axis] * x + m[4 + axis] * y + m[8 + axis] * z + m[12 + axis]
+          min[axis] = Math.min(min[axis], value)
+          max[axis] = Math.max(max[axis], value)
+        }
+      }
+    }
+    if (min[0] > max[0]) return [0, 0, 0]
+    return min.map((v, axis) => (v + max[axis]) / 2)
+  }
+
+  /**
+   * Moves the geometry so that given model space point is at zero.
+   * Vertices are made relative to the center of their mesh, whose position is moved to the instance transforms.
+   * Computed in double precision, positions and transforms are then single precision.
+   * Meshes sharing vertices with other meshes keep their vertices as is.
+   */
+  rebase (origin: number[]) {
+    if (origin.every((v) => v === 0)) return
+
+    // Mesh of each vertex
+    const vertexCount = this.positions.length / this.positionArity
+    const owners = new Int32Array(vertexCount).fill(-1)
+    const shared = new Set<number>()
+    for (let mesh = 0; mesh < this.getMeshCount(); mesh++) {
+      this.forEachMeshIndex(mesh, (vertex) => {
+        const owner = owners[vertex]
+        if (owner < 0) owners[vertex] = mesh
+        else if (owner !== mesh) shared.add(owner).add(mesh)
+      })
+    }
+
+    const meshBoxes = this.getMeshBoxes()
+    const centers = new Float64Array(this.getMeshCount() * 3)
+    for (let mesh = 0; mesh < this.getMeshCount(); mesh++) {
+      const box = meshBoxes.subarray(mesh * 6, mesh * 6 + 6)
+      if (shared.has(mesh) || box[0] > box[3]) continue
+      for (let axis = 0; axis < 3; axis++) {
+        centers[mesh * 3 + axis] = (box[axis] + box[axis + 3]) / 2
+      }
+    }
+
+    const positions = new Float32Array(this.positions.length)
+    for (let vertex = 0; vertex < vertexCount; vertex++) {
+      const owner = owners[vertex]
+      for (let axis = 0; axis < 3; axis++) {
+        const center = owner < 0 ? 0 : centers[owner * 3 + axis]
+        positions[vertex * 3 + axis] =
+          this.positions[vertex * 3 + axis] - center
+      }
+    }
+
+    const transforms = new Float32Array(this.instanceTransforms.length)
+    const matrix = new Float64Array(this.matrixArity)
+    for (let instance = 0; instance < this.getInstanceCount(); instance++) {
+      matrix.set(this.getTransformMatrixAsArray(instance))
+      const mesh = this.instanceMeshes[instance]
+      if (mesh >= 0) {
+        // Transform times a translation to the mesh center, the last column is the transformed center
+        const [x, y, z] = centers.subarray(mesh * 3, mesh * 3 + 3)
+        for (let row = 0; row < 4; row++) {
+          matrix[12 + row] +=
+            matrix[row] * x + matrix[4 + row] * y + matrix[8 + row] * z
+        }
+      }
+      // Translation by minus origin times that
+      for (let column = 0; column < 4; column++) {
+        for (let row = 0; row < 3; row++) {
+          matrix[column * 4 + row] -= origin[row] * matrix[column * 4 + 3]
+        }
+      }
+      transforms.set(matrix, instance * this.matrixArity)
+    }
+
+    this.positions = positions
+    this.instanceTransforms = transforms
+  }
+
   getMeshReferenceCounts = (): Int32Array => {
     const meshRefCounts = new Int32Array(this.getMeshCount())
     for (let i = 0; i < this.instanceMeshes.length; ++i) {
@@ -226,7 +411,7 @@ class VimG3d {
   validate () {
     const isPresent = (attribute: any, label: string) => {
       if (!attribute) {
-        throw new Error(`Missing Attribute Buffer: ${label}`)
+        throw new G3dValidationError(`Missing Attribute Buffer: ${label}`)
       }
     }
     isPresent(this.positions, 'position')
@@ -240,18 +425,20 @@ class VimG3d {
 
     // Basic
     if (this.positions.length % this.positionArity !== 0) {
-      throw new Error(
+      throw new G3dValidationError(
         'Invalid position buffer, must be divisible by ' + this.positionArity
       )
     }
 
     if (this.indices.length % 3 !== 0) {
-      throw new Error('Invalid Index Count, must be divisible by 3')
+      throw new G3dValidationError(
+        'Invalid Index Count, must be divisible by 3'
+      )
     }
 
     for (let i = 0; i < this.indices.length; i++) {
       if (this.indices[i] < 0 || this.indices[i] >= this.positions.length) {
-        throw new Error('Vertex index out of bound')
+        throw new G3dValidationError('Vertex index out of bound')
       }
     }
 
@@ -260,11 +447,11 @@ class VimG3d {
       this.instanceMeshes.length !==
       this.instanceTransforms.length / this.matrixArity
     ) {
-      throw new Error('Instance buffers mismatched')
+      throw new G3dValidationError('Instance buffers mismatched')
     }
 
     if (this.instanceTransforms.length % this.matrixArity !== 0) {
-      throw new Error(
+      throw new G3dValidationError(
         'Invalid InstanceTransform buffer, must respect arity ' +
           this.matrixArity
       )
@@ -272,7 +459,7 @@ class VimG3d {
 
     for (let i = 0; i < this.instanceMeshes.length; i++) {
       if (this.instanceMeshes[i] >= this.meshSubmeshes.length) {
-        throw new Error('Instance Mesh Out of range.')
+        throw new G3dValidationError('Instance Mesh Out of range.')
       }
     }
 
@@ -282,19 +469,19 @@ class VimG3d {
         this.meshSubmeshes[i] < 0 ||
         this.meshSubmeshes[i] >= this.submeshIndexOffset.length
       ) {
-        throw new Error('MeshSubmeshOffset out of bound at')
+        throw new G3dValidationError('MeshSubmeshOffset out of bound at')
       }
     }
 
     for (let i = 0; i < this.meshSubmeshes.length - 1; i++) {
       if (this.meshSubmeshes[i] >= this.meshSubmeshes[i + 1]) {
-        throw new Error('MeshSubmesh out of sequence.')
+        throw new G3dValidationError('MeshSubmesh out of sequence.')
       }
     }
 
     // Submeshes
     if (this.submeshIndexOffset.length !== this.submeshMaterial.length) {
-      throw new Error('Mismatched submesh buffers')
+      throw new G3dValidationError('Mismatched submesh buffers')
     }
 
     for (let i = 0; i < this.submeshIndexOffset.length; i++) {
@@ -302,35 +489,64 @@ class VimG3d {
         this.submeshIndexOffset[i] < 0 ||
         this.submeshIndexOffset[i] >= this.indices.length
       ) {
-        throw new Error('SubmeshIndexOffset out of bound')
+        throw new G3dValidationError('SubmeshIndexOffset out of bound')
       }
     }
 
     for (let i = 0; i < this.submeshIndexOffset.length; i++) {
       if (this.submeshIndexOffset[i] % 3 !== 0) {
-        throw new Error('Invalid SubmeshIndexOffset, must be divisible by 3')
+        throw new G3dValidationError(
+          'Invalid SubmeshIndexOffset, must be divisible by 3'
+        )
       }
     }
 
     for (let i = 0; i < this.submeshIndexOffset.length - 1; i++) {
       if (this.submeshIndexOffset[i] >= this.submeshIndexOffset[i + 1]) {
-        throw new Error('SubmeshIndexOffset out of sequence.')
+        throw new G3dValidationError('SubmeshIndexOffset out of sequence.')
       }
     }
 
     for (let i = 0; i < this.submeshMaterial.length; i++) {
       if (this.submeshMaterial[i] >= this.materialColors.length) {
-        throw new Error('submeshMaterial out of bound')
+        throw new G3dValidationError('submeshMaterial out of bound')
       }
     }
 
     // Materials
     if (this.materialColors.length % this.colorArity !== 0) {
-      throw new Error(
+      throw new G3dValidationError(
         'Invalid material color buffer, must be divisible by ' + this.colorArity
       )
     }
   }
+
+  // Box of the vertices of each mesh as minX, minY, minZ, maxX, maxY, maxZ, empty meshes have min greater than max
+  private getMeshBoxes (): Float64Array {
+    const result = new Float64Array(this.getMeshCount() * 6)
+    for (let mesh = 0; mesh < this.getMeshCount(); mesh++) {
+      const box = result.subarray(mesh * 6, mesh * 6 + 6)
+      box.set([Infinity, Infinity, Infinity, -Infinity, -Infinity, -Infinity])
+      this.forEachMeshIndex(mesh, (vertex) => {
+        for (let axis = 0; axis < 3; axis++) {
+          const value = this.positions[vertex * 3 + axis]
+          box[axis] = Math.min(box[axis], value)
+          box[axis + 3] = Math.max(box[axis + 3], value)
+        }
+      })
+    }
+    return result
+  }
+
+  private forEachMeshIndex (mesh: number, callback: (vertex: number) => void) {
+    const [meshStart, meshEnd] = this.getMeshSubmeshRange(mesh)
+    for (let submesh = meshStart; submesh < meshEnd; submesh++) {
+      const [start, end] = this.getSubmeshIndexRange(submesh)
+      for (let index = start; index < end; index++) {
+        callback(this.indices[index])
+      }
+    }
+  }
 }
 
 export { VimG3d, G3d, Attribute, AttributeDescriptor }
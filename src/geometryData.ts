@@ -0,0 +1,479 @@
+/**
+ @author VIM / https://vimaec.com
+*/
+
+// This module must not depend on three.js, it runs inside the geometry worker.
+import { parseBFastFromArray } from './bfast'
+import { G3d, VimG3d } from './g3d'
+import { LoadProgress, ProgressReporter } from './loadProgress'
+import { BvhData, buildBvh, buildTriangleBvh } from './bvh'
+
+/**
+ * Vertex data of a single mesh, ready to be wrapped in a THREE.BufferGeometry.
+ */
+export interface MeshData {
+  // xyz per vertex
+  positions: Float32Array
+  indices: Uint32Array
+  // rgb per vertex, rgba for transparent meshes
+  colors: Float32Array
+}
+
+/**
+ * A mesh shared by many nodes, rendered as a THREE.InstancedMesh.
+ */
+export interface InstancedMeshData extends MeshData {
+  // One column-major 4x4 matrix per instance
+  matrices: Float32Array
+  // Node index of each instance
+  nodes: Int32Array
+  // Triangles of the shared mesh, in mesh space
+  bvh: BvhData
+  // Instance boxes, in model space
+  instanceBvh: BvhData
+}
+
+/**
+ * All meshes used by a single node, transformed and merged together.
+ */
+export interface MergedMeshData extends MeshData {
+  // Merged nodes, in vertex order
+  nodes: Int32Array
+  // First vertex of each node, followed by the vertex count
+  vertexOffsets: Int32Array
+  // Triangles of all nodes, in model space
+  bvh: BvhData
+}
+
+export interface GeometryData {
+  instanced: InstancedMeshData[]
+  merged: MergedMeshData | undefined
+  // Built from transparent submeshes only, drawn after the opaque ones
+  transparentInstanced: InstancedMeshData[]
+  transparentMerged: MergedMeshData | undefined
+}
+
+// Message sent to the geometry worker
+export interface GeometryRequest {
+  id: number
+  // BFAST bytes of the g3d, transfered to the worker and back
+  g3d: Uint8Array
+  // Subtracted from model space coordinates, found from the geometry when undefined
+  origin?: number[]
+}
+
+// Positions and transforms of a g3d moved by VimG3d.rebase
+export interface RebasedG3d {
+  positions: Float32Array
+  instanceTransforms: Float32Array
+}
+
+// Message sent back by the geometry worker, either progress or result
+export interface GeometryResponse {
+  id: number
+  progress?: LoadProgress
+  g3d?: Uint8Array
+  data?: GeometryData
+  // Origin the geometry was moved from
+  origin?: number[]
+  // The g3d arrays once moved, undefined when the origin is zero
+  rebased?: RebasedG3d
+  // Errors don't survive postMessage, only their type name and message are sent
+  error?: { name: string; message: string }
+}
+
+// Meshes built between two progress reports
+const progressInterval = 1000
+
+const defaultColor = [0.5, 0.5, 0.5, 1]
+
+// Models whose center is farther than this from zero are moved near it
+const rebaseDistance = 10000
+
+/**
+ * Builds transferable vertex data for all meshes of a g3d.
+ * Meshes referenced by a single node are merged, others are instanced.
+ * Opaque and transparent submeshes are built apart.
+ */
+export function buildGeometryData (
+  g3d: VimG3d,
+  progress: ProgressReporter = new ProgressReporter()
+): GeometryData {
+  const meshCount = g3d.getMeshCount()
+  progress.start('build-geometry', meshCount)
+  const meshRefCounts = g3d.getMeshReferenceCounts()
+  const meshes: (MeshData | undefined)[] = []
+  const transparentMeshes: (MeshData | undefined)[] = []
+  for (let mesh = 0; mesh < meshCount; mesh++) {
+    meshes.push(buildMeshData(g3d, mesh))
+    transparentMeshes.push(buildMeshData(g3d, mesh, true))
+    if (mesh % progressInterval === 0) progress.update(mesh)
+  }
+  const instanced = buildInstancedData(g3d, meshes, meshRefCounts)
+  const transparentInstanced = buildInstancedData(
+    g3d,
+    transparentMeshes,
+    meshRefCounts
+  )
+  progress.end()
+
+  return progress.time('merge', () => ({
+    instanced,
+    merged: buildMergedData(g3d, meshes, meshRefCounts, 3),
+    transparentInstanced,
+    transparentMerged: buildMergedData(g3d, transparentMeshes, meshRefCounts, 4)
+  }))
+}
+
+/**
+ * Returns the vertex data of the opaque or transparent submeshes of given mesh,
+ * rebased to their own vertex range. Returns undefined if there are none.
+ * Colors of transparent submeshes are rgba.
+ */
+export function buildMeshData (
+  g3d: VimG3d,
+  meshIndex: number,
+  transparent: boolean = false
+): MeshData | undefined {
+  // min and max indices accumulated to slice into the vertex buffer
+  let min = Number.MAX_SAFE_INTEGER
+  let max = 0
+  let indexCount = 0
+
+  const [meshStart, meshEnd] = g3d.getMeshSubmeshRange(meshIndex)
+  for (let submesh = meshStart; submesh < meshEnd; submesh++) {
+    if (isSubmeshOpaque(g3d, submesh) === transparent) continue
+    const [start, end] = g3d.getSubmeshIndexRange(submesh)
+    indexCount += end - start
+    for (let index = start; index < end; index++) {
+      const vertex = g3d.indices[index]
+      min = Math.min(min, vertex)
+      max = Math.max(max, vertex)
+    }
+  }
+
+  if (indexCount === 0) return
+
+  const colorArity = transparent ? 4 : 3
+  const indices = new Uint32Array(indexCount)
+  const colors = new Float32Array((max - min + 1) * colorArity)
+  let i = 0
+  for (let submesh = meshStart; submesh < meshEnd; submesh++) {
+    if (isSubmeshOpaque(g3d, submesh) === transparent) continue
+    const color = getSubmeshColor(g3d, submesh, colorArity)
+    const [start, end] = g3d.getSubmeshIndexRange(submesh)
+    for (let index = start; index < end; index++) {
+      // Rebase indices in mesh space
+      const vertex = g3d.indices[index] - min
+      indices[i++] = vertex
+      colors.set(color, vertex * colorArity)
+    }
+  }
+
+  // 3 is the arity of positions, double precision positions are converted
+  const positions = new Float32Array(
+    g3d.positions.subarray(min * 3, (max + 1) * 3)
+  )
+  return { positions, indices, colors }
+}
+
+function buildInstancedData (
+  g3d: VimG3d,
+  meshes: (MeshData | undefined)[],
+  meshRefCounts: Int32Array
+): InstancedMeshData[] {
+  const result: (InstancedMeshData | undefined)[] = new Array(meshes.length)
+  const counters = new Int32Array(meshes.length)
+
+  for (let node = 0; node < g3d.getInstanceCount(); node++) {
+    const meshIndex = g3d.instanceMeshes[node]
+    if (meshIndex < 0) continue
+
+    const count = meshRefCounts[meshIndex]
+    const mesh = meshes[meshIndex]
+    if (count <= 1 || !mesh) continue
+
+    let instanced = result[meshIndex]
+    if (!instanced) {
+      instanced = {
+        ...mesh,
+        matrices: new Float32Array(count * g3d.matrixArity),
+        nodes: new Int32Array(count),
+        bvh: buildTriangleBvh(mesh.positions, mesh.indices),
+        instanceBvh: undefined
+      }
+      result[meshIndex] = instanced
+    }
+
+    const instance = counters[meshIndex]++
+    instanced.nodes[instance] = node
+    instanced.matrices.set(
+      g3d.getTransformMatrixAsArray(node),
+      instance * g3d.matrixArity
+    )
+  }
+
+  // Instances are only complete once all nodes are visited
+  result.forEach((instanced) => {
+    if (instanced) instanced.instanceBvh = buildInstanceBvh(instanced)
+  })
+  return result.filter((m) => m)
+}
+
+function buildInstanceBvh (data: InstancedMeshData): BvhData {
+  const meshBox = new Float32Array(emptyBox)
+  for (let i = 0; i < data.positions.length; i += 3) {
+    for (let axis = 0; axis < 3; axis++) {
+      meshBox[axis] = Math.min(meshBox[axis], data.positions[i + axis])
+      meshBox[axis + 3] = Math.max(meshBox[axis + 3], data.positions[i + axis])
+    }
+  }
+
+  const count = data.nodes.length
+  const boxes = new Float32Array(count * 6)
+  for (let i = 0; i < count; i++) {
+    transformBox(
+      meshBox,
+      data.matrices.subarray(i * 16, i * 16 + 16),
+      boxes.subarray(i * 6, i * 6 + 6)
+    )
+  }
+  return buildBvh(boxes)
+}
+
+function buildMergedData (
+  g3d: VimG3d,
+  meshes: (MeshData | undefined)[],
+  meshRefCounts: Int32Array,
+  colorArity: number
+): MergedMeshData | undefined {
+  const isUnique = (node: number) => {
+    const meshIndex = g3d.instanceMeshes[node]
+    return meshIndex >= 0 && meshRefCounts[meshIndex] === 1 && meshes[meshIndex]
+  }
+
+  // Allocate once for all unique meshes
+  let vertexCount = 0
+  let indexCount = 0
+  let nodeCount = 0
+  for (let node = 0; node < g3d.getInstanceCount(); node++) {
+    if (!isUnique(node)) continue
+    const mesh = meshes[g3d.instanceMeshes[node]]
+    vertexCount += mesh.positions.length / 3
+    indexCount += mesh.indices.length
+    nodeCount++
+  }
+  if (indexCount === 0) return
+
+  const positions = new Float32Array(vertexCount * 3)
+  const colors = new Float32Array(vertexCount * colorArity)
+  const indices = new Uint32Array(indexCount)
+  const nodes = new Int32Array(nodeCount)
+  const vertexOffsets = new Int32Array(nodeCount + 1)
+
+  let vertexOffset = 0
+  let indexOffset = 0
+  let nodeOffset = 0
+  for (let node = 0; node < g3d.getInstanceCount(); node++) {
+    if (!isUnique(node)) continue
+    const mesh = meshes[g3d.instanceMeshes[node]]
+    const matrix = g3d.getTransformMatrixAsArray(node)
+    const count = mesh.positions.length / 3
+    nodes[nodeOffset] = node
+    vertexOffsets[nodeOffset++] = vertexOffset
+
+    transformPositions(mesh.positions, matrix, positions, vertexOffset * 3)
+    colors.set(mesh.colors, vertexOffset * colorArity)
+    for (let i = 0; i < mesh.indices.length; i++) {
+      indices[indexOffset + i] = mesh.indices[i] + vertexOffset
+    }
+
+    vertexOffset += count
+    indexOffset += mesh.indices.length
+  }
+
+  vertexOffsets[nodeCount] = vertexCount
+  const bvh = buildTriangleBvh(positions, indices)
+  return { positions, indices, colors, nodes, vertexOffsets, bvh }
+}
+
+// Applies a column-major 4x4 matrix to xyz positions
+function transformPositions (
+  source: Float32Array,
+  m: Float32Array | Float64Array,
+  target: Float32Array,
+  offset: number
+) {
+  for (let i = 0; i < source.length; i += 3) {
+    const x = source[i]
+    const y = source[i + 1]
+    const z = source[i + 2]
+    const w = 1 / (m[3] * x + m[7] * y + m[11] * z + m[15])
+    target[offset + i] = (m[0] * x + m[4] * y + m[8] * z + m[12]) * w
+    target[offset + i + 1] = (m[1] * x + m[5] * y + m[9] * z + m[13]) * w
+    target[offset + i + 2] = (m[2] * x + m[6] * y + m[10] * z + m[14]) * w
+  }
+}
+
+/**
+ * Returns the model space bounding box of all nodes as [minX, minY, minZ, maxX, maxY, maxZ] per node.
+ * Nodes without geometry have an empty box, where min is greater than max.
+ */
+export function computeNodeBoxes (g3d: VimG3d): Float32Array {
+  const meshBoxes = new Float32Array(g3d.getMeshCount() * 6)
+  for (let mesh = 0; mesh < g3d.getMeshCount(); mesh++) {
+    const box = meshBoxes.subarray(mesh * 6, mesh * 6 + 6)
+    box.set(emptyBox)
+    const [meshStart, meshEnd] = g3d.getMeshSubmeshRange(mesh)
+    for (let submesh = meshStart; submesh < meshEnd; submesh++) {
+      const [start, end] = g3d.getSubmeshIndexRange(submesh)
+      for (let index = start; index < end; index++) {
+        const vertex = g3d.indices[index] * 3
+        for (let axis = 0; axis < 3; axis++) {
+          const value = g3d.positions[vertex + axis]
+          box[axis] = Math.min(box[axis], value)
+          box[axis + 3] = Math.max(box[axis + 3], value)
+        }
+      }
+    }
+  }
+
+  const nodeCount = g3d.getInstanceCount()
+  const result = new Float32Array(nodeCount * 6)
+  for (let node = 0; node < nodeCount; node++) {
+    const box = result.subarray(node * 6, node * 6 + 6)
+    box.set(emptyBox)
+    const mesh = g3d.instanceMeshes[node]
+    if (mesh < 0) continue
+    const meshBox = meshBoxes.subarray(mesh * 6, mesh * 6 + 6)
+    if (meshBox[0] > meshBox[3]) continue
+    transformBox(meshBox, g3d.getTransformMatrixAsArray(node), box)
+  }
+  return result
+}
+
+// Sets target to the box around the 8 transformed corners of source
+function transformBox (
+  source: Float32Array,
+  matrix: Float32Array | Float64Array,
+  target: Float32Array
+) {
+  const corner = new Float32Array(3)
+  const transformed = new Float32Array(3)
+  target.set(emptyBox)
+  for (let i = 0; i < 8; i++) {
+    corner[0] = source[i & 1 ? 3 : 0]
+    corner[1] = source[i & 2 ? 4 : 1]
+    corner[2] = source[i & 4 ? 5 : 2]
+    transformPositions(corner, matrix, transformed, 0)
+    for (let axis = 0; axis < 3; axis++) {
+      target[axis] = Math.min(target[axis], transformed[axis])
+      target[axis + 3] = Math.max(target[axis + 3], transformed[axis])
+    }
+  }
+}
+
+const emptyBox = [Infinity, Infinity, Infinity, -Infinity, -Infinity, -Infinity]
+
+function isSubmeshOpaque (g3d: VimG3d, submesh: number): boolean {
+  const material = g3d.submeshMaterial[submesh]
+  if (material < 0) return true
+  // Below this alpha, submeshes are built into the transparent meshes
+  return g3d.materialColors[material * g3d.colorArity + 3] >= 0.9
+}
+
+function getSubmeshColor (
+  g3d: VimG3d,
+  submesh: number,
+  arity: number
+): ArrayLike<number> {
+  const material = g3d.submeshMaterial[submesh]
+  if (material < 0) return defaultColor.slice(0, arity)
+  const colorIndex = material * g3d.colorArity
+  return g3d.materialColors.subarray(colorIndex, colorIndex + arity)
+}
+
+/**
+ * Returns the rounded center of a g3d far from zero, where its geometry would jitter in single precision.
+ * Returns zero otherwise.
+ */
+export function getOrigin (g3d: VimG3d): number[] {
+  const center = g3d.getCenter()
+  const far = center.some((v) => Math.abs(v) > rebaseDistance)
+  return far ? center.map(Math.round) : [0, 0, 0]
+}
+
+// Moves the g3d to given origin, returns the moved arrays if it was moved
+function rebase (g3d: VimG3d, origin: number[]): RebasedG3d | undefined {
+  const positions = g3d.positions
+  g3d.rebase(origin)
+  if (g3d.positions === positions) return
+  return {
+    positions: g3d.positions as Float32Array,
+    instanceTransforms: g3d.instanceTransforms as Float32Array
+  }
+}
+
+// Lists the buffers of given data so they can be moved across threads
+export function getTransferables (data: GeometryData): ArrayBuffer[] {
+  const instanced = [...data.instanced, ...data.transparentInstanced]
+  const merged = [data.merged, data.transparentMerged].filter((m) => m)
+  const meshes: MeshData[] = [...instanced, ...merged]
+  const bvhs: BvhData[] = []
+  const result: ArrayBuffer[] = []
+  instanced.forEach((m) => {
+    result.push(m.matrices.buffer, m.nodes.buffer)
+    bvhs.push(m.bvh, m.instanceBvh)
+  })
+  merged.forEach((m) => {
+    bvhs.push(m.bvh)
+    result.push(m.nodes.buffer, m.vertexOffsets.buffer)
+  })
+  bvhs.forEach((b) =>
+    result.push(b.bounds.buffer, b.nodes.buffer, b.items.buffer)
+  )
+  meshes.forEach((m) =>
+    result.push(m.positions.buffer, m.indices.buffer, m.colors.buffer)
+  )
+  return result
+}
+
+/**
+ * Parses, validates and builds the g3d of a request.
+ * Used by the worker, or directly on the main thread as a fallback.
+ */
+export function handleGeometryRequest (
+  request: GeometryRequest,
+  onProgress?: (progress: LoadProgress) => void
+): [GeometryResponse, ArrayBuffer[]] {
+  const bytes = request.g3d
+  const progress = new ProgressReporter(onProgress)
+  try {
+    const g3d = progress.time('parse-bfast', () => {
+      const result = new VimG3d(G3d.fromBFast(parseBFastFromArray(bytes)))
+      result.validate()
+      return result
+    })
+    const origin = request.origin ?? getOrigin(g3d)
+    const rebased = rebase(g3d, origin)
+    const data = buildGeometryData(g3d, progress)
+    // Sent back so that the main thread does not compute them again
+    const rebasedBuffers = rebased
+      ? [rebased.positions.buffer, rebased.instanceTransforms.buffer]
+      : []
+    return [
+      { id: request.id, g3d: bytes, data, origin, rebased },
+      [bytes.buffer, ...getTransferables(data), ...rebasedBuffers]
+    ]
+  } catch (e) {
+    const error = e as Error
+    return [
+      {
+        id: request.id,
+        g3d: bytes,
+        error: { name: error.name, message: error.message }
+      },
+      [bytes.buffer]
+    ]
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ @author VIM / https://vimaec.com
+*/
+
+import {
+  GeometryData,
+  GeometryRequest,
+  GeometryResponse,
+  handleGeometryRequest,
+  RebasedG3d
+} from './geometryData'
+import { createLoadError, LoadError } from './loadErrors'
+import { LoadProgress } from './loadProgress'
+
+/**
+ * The subset of the Worker api used by the geometry pipeline.
+ * Allows to substitute the worker where none is available.
+ */
+export interface WorkerLike {
+  onmessage: ((event: { data: GeometryResponse }) => void) | null
+  // The worker failed outside of a request, such as when its script could not load
+  onerror: ((event: { message?: string }) => void) | null
+  // A message could not be deserialized
+  onmessageerror: ((event: unknown) => void) | null
+  postMessage(message: GeometryRequest, transfer?: ArrayBuffer[]): void
+  terminate(): void
+}
+
+/**
+ * Stand-in for the geometry worker which does the work on the calling thread.
+ * Used where web workers are not available, such as node.
+ */
+export class InlineWorker implements WorkerLike {
+  onmessage: ((event: { data: GeometryResponse }) => void) | null = null
+  onerror: ((event: { message?: string }) => void) | null = null
+  onmessageerror: ((event: unknown) => void) | null = null
+  private terminated = false
+
+  postMessage (message: GeometryRequest) {
+    // Respond asynchronously like an actual worker
+    setTimeout(() => {
+      if (this.terminated) return
+      try {
+        const [response] = handleGeometryRequest(message, (progress) =>
+          this.onmessage?.({ data: { id: message.id, progress } })
+        )
+        this.onmessage?.({ data: response })
+      } catch (error) {
+        this.onerror?.({ message: String(error) })
+      }
+    })
+  }
+
+  terminate () {
+    this.terminated = true
+  }
+}
+
+// The g3d bytes, its geometry, the origin it was moved from and its moved arrays
+export type GeometryResult = [
+  Uint8Array,
+  GeometryData,
+  number[],
+  RebasedG3d | undefined
+]
+
+type PendingRequest = {
+  resolve: (result: GeometryResult) => void
+  reject: (error: Error) => void
+  onProgress: ((progress: LoadProgress) => void) | undefined
+}
+
+/**
+ * Sends g3d buffers to a worker to be parsed into transferable geometry data.
+ */
+export class GeometryWorker {
+  private worker: WorkerLike
+  private pending = new Map<number, PendingRequest>()
+  private nextId = 0
+
+  constructor (worker: WorkerLike = new InlineWorker()) {
+    this.worker = worker
+    this.worker.onmessage = (event) => this.onResponse(event.data)
+    // Without a response pending requests would never settle
+    this.worker.onerror = (event) =>
+      this.terminate(
+        new LoadError(
+          `Geometry worker failed: ${event.message ?? 'unknown error'}`
+        )
+      )
+    this.worker.onmessageerror = () =>
+      this.terminate(
+        new LoadError('Geometry worker sent an unreadable message')
+      )
+  }
+
+  /**
+   * Builds the geometry of given g3d bytes, moved near zero when far from it.
+   * The bytes are moved to the worker, use the returned bytes from then on.
+   * Resolves with the origin subtracted from the geometry, and the positions and
+   * transforms of the g3d once moved, undefined when it was not moved.
+   * @param origin subtracted instead of the one found from the geometry
+   */
+  build (
+    g3d: Uint8Array,
+    onProgress?: (progress: LoadProgress) => void,
+    origin?: number[]
+  ): Promise<GeometryResult> {
+    // Only whole buffers can be moved, copy views into larger buffers
+    const bytes = g3d.byteLength === g3d.buffer.byteLength ? g3d : g3d.slice()
+
+    const request: GeometryRequest = { id: this.nextId++, g3d: bytes, origin }
+    return new Promise((resolve, reject) => {
+      this.pending.set(request.id, { resolve, reject, onProgress })
+      this.worker.postMessage(request, [bytes.buffer])
+    })
+  }
+
+  // Stops the worker, pending requests are rejected with given error
+  terminate (error: Error = new Error('Geometry worker terminated')) {
+    this.worker.terminate()
+    this.pending.forEach((p) => p.reject(error))
+    this.pending.clear()
+  }
+
+  private onResponse (response: GeometryResponse) {
+    const request = this.pending.get(response.id)
+    if (!request) return
+    if (response.progress) {
+      request.onProgress?.(response.progress)
+      return
+    }
+    this.pending.delete(response.id)
+
+    if (response.error) {
+      request.reject(
+        createLoadError(response.error.name, response.error.message)
+      )
+    } else {
+      request.resolve([
+        response.g3d,
+        response.data,
+        response.origin,
+        response.rebased
+      ])
+    }
+  }
+}
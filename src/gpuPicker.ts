@@ -0,0 +1,239 @@
+/**
+ @author VIM / https://vimaec.com
+*/
+
+import * as THREE from 'three'
+
+/**
+ * An object rendered in the id buffer.
+ */
+export interface GpuPick {
+  mesh: THREE.Mesh
+  // Instance index, 0 for meshes which are not instanced
+  instance: number
+  // Vertex index for merged meshes, whose ids are per vertex, otherwise -1
+  vertex: number
+}
+
+// Meshes are rendered on this layer only while picking
+const pickLayer = 31
+
+const vertexShader = `
+  #include <common>
+  #include <clipping_planes_pars_vertex>
+  uniform highp uint idBase;
+  // Nodes which are not visible are left out, see vimMaterial
+  attribute float visibility;
+  flat varying highp uint vId;
+
+  void main() {
+    #include <begin_vertex>
+    #include <project_vertex>
+    #include <clipping_planes_vertex>
+    if (visibility > 0.5) gl_Position = vec4(0.0, 0.0, 2.0, 1.0);
+    #ifdef PICK_VERTEX
+      vId = idBase + uint(gl_VertexID);
+    #else
+      vId = idBase + uint(gl_InstanceID);
+    #endif
+  }
+`
+
+const fragmentShader = `
+  #include <clipping_planes_pars_fragment>
+  flat varying highp uint vId;
+
+  void main() {
+    #include <clipping_planes_fragment>
+    gl_FragColor = vec4(
+      float((vId >> 24) & 255u),
+      float((vId >> 16) & 255u),
+      float((vId >> 8) & 255u),
+      float(vId & 255u)
+    ) / 255.0;
+  }
+`
+
+type IdRange = { mesh: THREE.Mesh; base: number; merged: boolean }
+
+/**
+ * Renders meshes into an offscreen buffer where each pixel holds the id of the instance,
+ * or merged vertex, drawn there. Requires WebGL 2 for integer ids.
+ */
+export class GpuPicker {
+  private renderer: THREE.WebGLRenderer
+  private target = new THREE.WebGLRenderTarget(1, 1)
+  private materials = new Map<THREE.Mesh, THREE.ShaderMaterial>()
+
+  constructor (renderer: THREE.WebGLRenderer) {
+    this.renderer = renderer
+  }
+
+  isSupported (): boolean {
+    return this.renderer.capabilities.isWebGL2
+  }
+
+  /**
+   * Returns every distinct instance visible in a rectangle of the view.
+   * @param rect rectangle in pixels from the top left of a view of given size
+   * @param size size of the whole view, in pixels
+   */
+  pick (
+    scene: THREE.Scene,
+    camera: THREE.PerspectiveCamera,
+    meshes: THREE.Object3D[],
+    rect: THREE.Box2,
+    size: THREE.Vector2
+  ): GpuPick[] {
+    if (!this.isSupported()) throw new Error('GPU picking requires WebGL 2')
+
+    const x = Math.floor(rect.min.x)
+    const y = Math.floor(rect.min.y)
+    const width = Math.max(1, Math.ceil(rect.max.x) - x)
+    const height = Math.max(1, Math.ceil(rect.max.y) - y)
+    const ranges = this.render(scene, camera, meshes, () => {
+      camera.setViewOffset(size.x, size.y, x, y, width, height)
+      this.target.setSize(width, height)
+    })
+
+    const pixels = new Uint8Array(width * height * 4)
+    this.renderer.readRenderTargetPixels(
+      this.target,
+      0,
+      0,
+      width,
+      height,
+      pixels
+    )
+
+    const result = new Map<number, GpuPick>()
+    for (let i = 0; i < pixels.length; i += 4) {
+      const id =
+        ((pixels[i] << 24) |
+          (pixels[i + 1] << 16) |
+          (pixels[i + 2] << 8) |
+          pixels[i + 3]) >>>
+        0
+      if (id === 0 || result.has(id)) continue
+      const pick = decode(ranges, id)
+      if (pick) result.set(id, pick)
+    }
+    return Array.from(result.values())
+  }
+
+  dispose () {
+    this.target.dispose()
+    this.materials.forEach((m) => m.dispose())
+    this.materials.clear()
+  }
+
+  // Renders the ids of all meshes into the target, once given callback set the view
+  private render (
+    scene: THREE.Scene,
+    camera: THREE.PerspectiveCamera,
+    meshes: THREE.Object3D[],
+    setView: () => void
+  ): IdRange[] {
+    const ranges = this.assignIds(meshes)
+    const originals = ranges.map((r) => r.mesh.material)
+    ranges.forEach((r, i) => {
+      const material = this.materials.get(r.mesh)
+      // Clipped parts can't be picked
+      const original = originals[i]
+      material.clippingPlanes = (
+        Array.isArray(original) ? original[0] : original
+      ).clippingPlanes
+      r.mesh.material = material
+      r.mesh.layers.enable(pickLayer)
+    })
+
+    const background = scene.background
+    const layers = camera.layers.mask
+    const clearColor = this.renderer.getClearColor(new THREE.Color())
+    const clearAlpha = this.renderer.getClearAlpha()
+    const renderTarget = this.renderer.getRenderTarget()
+    try {
+      scene.background = null
+      camera.layers.set(pickLayer)
+      setView()
+      this.renderer.setRenderTarget(this.target)
+      this.renderer.setClearColor(0x000000, 0)
+      this.renderer.clear()
+      this.renderer.render(scene, camera)
+    } finally {
+      ranges.forEach((r, i) => {
+        r.mesh.material = originals[i]
+        r.mesh.layers.disable(pickLayer)
+      })
+      scene.background = background
+      camera.layers.mask = layers
+      camera.clearViewOffset()
+      this.renderer.setClearColor(clearColor, clearAlpha)
+      this.renderer.setRenderTarget(renderTarget)
+    }
+    return ranges
+  }
+
+  // Gives consecutive ids to the instances or vertices of each mesh, 0 means nothing
+  private assignIds (meshes: THREE.Object3D[]): IdRange[] {
+    const ranges: IdRange[] = []
+    const used = new Set<THREE.Mesh>()
+    let base = 1
+    meshes.forEach((object) => {
+      if (!(object instanceof THREE.Mesh)) return
+      const merged = !!object.userData.merged
+      const count = merged
+        ? object.geometry.getAttribute('position').count
+        : object instanceof THREE.InstancedMesh
+          ? object.count
+          : 1
+
+      let material = this.materials.get(object)
+      if (!material) {
+        material = createIdMaterial(merged)
+        this.materials.set(object, material)
+      }
+      material.uniforms.idBase.value = base
+      used.add(object)
+      ranges.push({ mesh: object, base, merged })
+      base += count
+    })
+
+    // Forget meshes removed since the last pick
+    this.materials.forEach((material, mesh) => {
+      if (used.has(mesh)) return
+      material.dispose()
+      this.materials.delete(mesh)
+    })
+    return ranges
+  }
+}
+
+function createIdMaterial (merged: boolean) {
+  return new THREE.ShaderMaterial({
+    uniforms: { idBase: { value: 0 } },
+    vertexShader,
+    fragmentShader,
+    defines: merged ? { PICK_VERTEX: '' } : {},
+    side: THREE.DoubleSide,
+    clipping: true
+  })
+}
+
+// Finds the range of an id, ranges are sorted by base
+function decode (ranges: IdRange[], id: number): GpuPick | undefined {
+  let low = 0
+  let high = ranges.length - 1
+  while (low < high) {
+    const mid = (low + high + 1) >> 1
+    if (ranges[mid].base <= id) low = mid
+    else high = mid - 1
+  }
+  const range = ranges[low]
+  if (!range || id < range.base) return
+
+  const offset = id - range.base
+  return range.merged
+    ? { mesh: range.mesh, instance: 0, vertex: offset }
+    : { mesh: range.mesh, instance: offset, vertex: -1 }
+}
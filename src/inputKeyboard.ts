@@ -154,7 +154,11 @@ export class InputKeyboard {
           break
         // Selection
         case KEYS.KEY_ESCAPE:
-          this.viewer.clearSelection()
+          if (this.viewer.isMeasuring()) this.viewer.stopMeasure()
+          else this.viewer.clearSelection()
+          break
+        case KEYS.KEY_ENTER:
+          this.viewer.finishMeasure()
           break
         case KEYS.KEY_Z:
           this.viewer.focusSelection()
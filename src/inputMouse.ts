@@ -1,6 +1,7 @@
 import * as THREE from 'three'
 import { ViewerCamera } from './viewerCamera'
 import { Viewer } from './viewer'
+import { SelectionMode } from './selection'
 import { Mesh, Vector2 } from 'three'
 
 export class InputMouse {
@@ -18,6 +19,14 @@ export class InputMouse {
   private isMouseDown: Boolean = false
   private hasMouseMoved: Boolean = false
   private ctrlDown: Boolean = false
+  // Corners of the box selection, in window pixels
+  private boxStart: Vector2 | undefined
+  private boxEnd: Vector2 | undefined
+  // Hover picking is throttled, the last position is picked when the timer ends
+  private hoverTime = 0
+  private hoverTimeout: ReturnType<typeof setTimeout> | undefined
+  private hoverPosition: Vector2 | undefined
+  private raycaster = new THREE.Raycaster()
 
   constructor (camera: ViewerCamera, canvas: HTMLCanvasElement, viewer: Viewer) {
     this.camera = camera
@@ -27,6 +36,11 @@ export class InputMouse {
 
   reset = () => {
     this.isMouseDown = this.hasMouseMoved = this.ctrlDown = false
+    this.boxStart = this.boxEnd = undefined
+    this.viewer.htmlDocument.hideSelectionBox()
+    this.viewer.sectionBox.endDrag()
+    clearTimeout(this.hoverTimeout)
+    this.hoverTimeout = this.hoverPosition = undefined
   }
 
   setCtrl = (value: Boolean) => {
@@ -34,13 +48,31 @@ export class InputMouse {
   }
 
   onMouseMove = (event: any) => {
+    const position = new THREE.Vector2(event.x, event.y)
     if (!this.isMouseDown) {
+      this.viewer.sectionBox.hover(this.getRay(position))
+      this.onMouseHover(position)
       return
     }
     this.hasMouseMoved = true
 
     event.preventDefault()
 
+    if (this.viewer.sectionBox.isDragging()) {
+      this.viewer.sectionBox.moveDrag(this.getRay(position))
+      return
+    }
+
+    if (this.boxStart) {
+      this.boxEnd = new THREE.Vector2(event.x, event.y)
+      this.viewer.htmlDocument.showSelectionBox(
+        this.boxStart,
+        this.boxEnd,
+        this.boxEnd.x < this.boxStart.x
+      )
+      return
+    }
+
     // https://github.com/mrdoob/three.js/blob/master/examples/jsm/controls/PointerLockControls.js
     const deltaX =
       event.movementX || event.mozMovementX || event.webkitMovementX || 0
@@ -82,39 +114,120 @@ export class InputMouse {
     this.isMouseDown = true
     this.hasMouseMoved = false
 
+    // Shift drag with the left button draws a selection box
+    const position = new THREE.Vector2(event.x, event.y)
+    if (event.shiftKey && event.button === 0) {
+      this.boxStart = position
+    } else if (event.button === 0) {
+      // Left drag on a handle of the section box moves its face rather than the camera
+      this.viewer.sectionBox.startDrag(this.getRay(position))
+    }
+
     // Manually set the focus since calling preventDefault above
     // prevents the browser from setting it automatically.
     this.canvas.focus ? this.canvas.focus() : window.focus()
   }
 
   onMouseUp = (event: any) => {
-    if (this.isMouseDown && !this.hasMouseMoved) {
-      this.onMouseClick(new THREE.Vector2(event.x, event.y))
+    const mode = getSelectionMode(event)
+    if (this.boxStart && this.boxEnd) {
+      // Ctrl shift drag removes from the selection
+      const boxMode = event.ctrlKey || event.metaKey ? 'remove' : 'add'
+      this.viewer.selectBox(this.boxStart, this.boxEnd, boxMode)
+    } else if (this.isMouseDown && !this.hasMouseMoved) {
+      this.onMouseClick(new THREE.Vector2(event.x, event.y), mode)
     }
+    this.boxStart = this.boxEnd = undefined
+    this.viewer.htmlDocument.hideSelectionBox()
+    this.viewer.sectionBox.endDrag()
     this.isMouseDown = false
   }
 
-  onMouseClick = (position: Vector2) => {
-    console.time('raycast')
-    const hits = this.mouseRaycast(position)
-    const [mesh, index] = this.findHitMeshIndex(hits) ?? [null, null]
-    console.timeEnd('raycast')
+  onMouseClick = (position: Vector2, mode: SelectionMode = 'replace') => {
+    // Measuring needs the hit point, which only raycasting gives
+    if (this.viewer.isMeasuring()) {
+      const hit = this.mouseRaycast(position)[0]
+      if (hit) this.viewer.addMeasurePoint(hit)
+      return
+    }
+
+    const [mesh, index] = (this.viewer.useGpuPicking()
+      ? this.gpuPick(position)
+      : this.findHitMeshIndex(this.mouseRaycast(position))) ?? [null, null]
 
     // 0 is a valid value
     if (index != null) {
-      this.viewer.select(mesh, index)
-    } else {
+      this.viewer.select(mesh, index, mode)
+    } else if (mode === 'replace') {
       this.viewer.clearSelection()
     }
   }
 
+  onMouseLeave = () => {
+    clearTimeout(this.hoverTimeout)
+    this.hoverTimeout = this.hoverPosition = undefined
+    this.viewer.hover(undefined)
+  }
+
+  onMouseHover = (position: Vector2) => {
+    // Picking is only worth it if it is shown or someone listens
+    const settings = this.viewer.settings.hover
+    if (!settings.enabled && !this.viewer.onHover.hasSubscribers()) return
+
+    this.hoverPosition = position
+    if (this.hoverTimeout) return
+    const wait = this.hoverTime + settings.interval - performance.now()
+    if (wait > 0) {
+      this.hoverTimeout = setTimeout(this.pickHover, wait)
+    } else {
+      this.pickHover()
+    }
+  }
+
+  private pickHover = () => {
+    this.hoverTimeout = undefined
+    const position = this.hoverPosition
+    if (!position) return
+    this.hoverPosition = undefined
+    this.hoverTime = performance.now()
+
+    let picked: [Mesh, number] | undefined
+    if (this.viewer.useGpuPicking()) {
+      picked = this.gpuPick(position)
+    } else {
+      const hit = this.mouseRaycast(position)[0]
+      picked = hit && this.getHitMeshIndex(hit)
+    }
+    const [mesh, index] = picked ?? [undefined]
+    this.viewer.hover(mesh, index)
+  }
+
+  // Returns the mesh and index drawn at given position in the id buffer
+  gpuPick (position: Vector2): [Mesh, number] | undefined {
+    const rect = new THREE.Box2(position, position.clone().addScalar(1))
+    const pick = this.viewer.render.gpuPick(rect)[0]
+    return (
+      pick && this.viewer.getMeshIndex(pick.mesh, pick.instance, pick.vertex)
+    )
+  }
+
+  // Hits sorted by distance, without the parts of meshes which are clipped.
+  // VIM meshes raycast through their bvh, which skips hidden and ghosted nodes.
   mouseRaycast (position: THREE.Vector2) {
+    this.getRay(position)
+    // Raycasting ignores visibility, hidden transparent meshes can't be picked
+    return this.raycaster
+      .intersectObjects(this.viewer.render.meshes.filter((m) => m.visible))
+      .filter((hit) => !isClipped(hit))
+  }
+
+  // Ray from the camera through given position in window pixels
+  private getRay (position: THREE.Vector2): THREE.Ray {
     const x = (position.x / window.innerWidth) * 2 - 1
     const y = -(position.y / window.innerHeight) * 2 + 1
     const mouse = new THREE.Vector2(x, y)
-    const raycaster = new THREE.Raycaster()
-    raycaster.setFromCamera(mouse, this.camera.camera)
-    return raycaster.intersectObjects(this.viewer.render.meshes)
+    this.raycaster.setFromCamera(mouse, this.camera.camera)
+    return this.raycaster.ray
   }
 
   findHitMeshIndex (
@@ -125,15 +238,16 @@ export class InputMouse {
       return
     }
 
-    const mesh = hits[0].object
-    if (!(mesh instanceof THREE.Mesh)) {
-      console.log(`Raycast hit object: ${mesh} of unsupported type. Ignoring.`)
+    const result = this.getHitMeshIndex(hits[0])
+    if (!result) {
+      console.log(
+        `Raycast hit object: ${hits[0].object} of unsupported type. Ignoring.`
+      )
       return
     }
 
-    const [index, meshType]: [number, string] = mesh.userData.merged
-      ? [Math.round(hits[0].uv.x), 'Merged']
-      : [hits[0].instanceId, 'Instanced']
+    const [mesh, index] = result
+    const meshType = mesh.userData.merged ? 'Merged' : 'Instanced'
 
     console.log(
       `Raycast: Hit ${meshType} Mesh with MeshId:${mesh.id} and NodeIndex: ${index}`
@@ -145,4 +259,29 @@ export class InputMouse {
 
     return [mesh, index]
   }
+
+  // Returns the hit mesh with the instance index, or node index for merged meshes
+  private getHitMeshIndex (
+    hit: THREE.Intersection<THREE.Object3D<THREE.Event>>
+  ): [Mesh, number] | undefined {
+    const mesh = hit.object
+    if (!(mesh instanceof THREE.Mesh)) return
+    return this.viewer.getMeshIndex(mesh, hit.instanceId, hit.face?.a)
+  }
+}
+
+// True if the hit point is cut away by a clipping plane of the hit material
+function isClipped (hit: THREE.Intersection<THREE.Object3D>): boolean {
+  if (!(hit.object instanceof THREE.Mesh)) return false
+  const material = hit.object.material
+  const planes = (Array.isArray(material) ? material[0] : material)
+    ?.clippingPlanes
+  return !!planes?.some((p: THREE.Plane) => p.distanceToPoint(hit.point) < 0)
+}
+
+// Shift click adds to the selection, ctrl click toggles
+function getSelectionMode (event: MouseEvent): SelectionMode {
+  if (event.ctrlKey || event.metaKey) return 'toggle'
+  if (event.shiftKey) return 'add'
+  return 'replace'
 }
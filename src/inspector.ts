@@ -0,0 +1,98 @@
+/**
+ @author VIM / https://vimaec.com
+*/
+
+import { ElementProperties } from './bim'
+
+/**
+ * Panel at the bottom right of the window listing the properties of an element.
+ */
+export class Inspector {
+  dom: HTMLDivElement
+
+  constructor () {
+    const panel = document.createElement('div')
+    panel.style.position = 'fixed'
+    panel.style.bottom = '16px'
+    panel.style.right = '16px'
+    panel.style.width = '320px'
+    panel.style.maxHeight = '80vh'
+    panel.style.overflowY = 'auto'
+    panel.style.padding = '8px'
+    panel.style.font = '12px sans-serif'
+    panel.style.background = 'rgba(255, 255, 255, 0.9)'
+    panel.style.display = 'none'
+    document.body.appendChild(panel)
+    this.dom = panel
+  }
+
+  /**
+   * Shows the properties of an element, hides the panel when undefined.
+   * @param count number of selected elements, shown when there are more than one
+   */
+  show (properties: ElementProperties | undefined, count: number = 1) {
+    this.dom.textContent = ''
+    this.dom.style.display = properties ? 'block' : 'none'
+    if (!properties) return
+
+    const title = document.createElement('div')
+    title.style.fontWeight = 'bold'
+    title.textContent = properties.name ?? `Element ${properties.id}`
+    this.dom.appendChild(title)
+    if (count > 1) {
+      const more = document.createElement('div')
+      more.textContent = `First of ${count} selected elements`
+      this.dom.appendChild(more)
+    }
+
+    this.addSection(undefined, [
+      ['Id', properties.id],
+      ['Category', properties.category],
+      ['Family', properties.family],
+      ['Type', properties.type],
+      ['Level', properties.level]
+    ])
+
+    // Parameters by group, in the order groups are first found
+    const groups = new Map<string, [string, string][]>()
+    properties.parameters.forEach((p) => {
+      const group = p.group || 'Other'
+      const rows = groups.get(group)
+      if (rows) rows.push([p.name, p.value])
+      else groups.set(group, [[p.name, p.value]])
+    })
+    groups.forEach((rows, group) => this.addSection(group, rows))
+  }
+
+  dispose () {
+    this.dom.remove()
+  }
+
+  private addSection (
+    title: string | undefined,
+    rows: [string | undefined, string | number | undefined][]
+  ) {
+    if (title) {
+      const header = document.createElement('div')
+      header.style.marginTop = '8px'
+      header.style.fontWeight = 'bold'
+      header.textContent = title
+      this.dom.appendChild(header)
+    }
+
+    const table = document.createElement('table')
+    table.style.width = '100%'
+    table.style.borderCollapse = 'collapse'
+    rows.forEach(([name, value]) => {
+      const row = table.insertRow()
+      const cells = [name ?? '', value === undefined ? '' : String(value)]
+      cells.forEach((text) => {
+        const cell = row.insertCell()
+        cell.style.padding = '1px 4px'
+        cell.style.wordBreak = 'break-word'
+        cell.textContent = text
+      })
+    })
+    this.dom.appendChild(table)
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ @author VIM / https://vimaec.com
+*/
+
+/**
+ * Base class of all errors raised while loading a model.
+ */
+export class LoadError extends Error {
+  // Underlying error, if any
+  cause: unknown
+
+  constructor (message: string, cause?: unknown) {
+    super(message)
+    this.name = 'LoadError'
+    this.cause = cause
+  }
+}
+
+// The file could not be downloaded
+export class NetworkError extends LoadError {
+  status: number | undefined
+
+  constructor (message: string, status?: number, cause?: unknown) {
+    super(message, cause)
+    this.name = 'NetworkError'
+    this.status = status
+  }
+}
+
+// The file is not a valid BFAST container
+export class BFastHeaderError extends LoadError {
+  constructor (message: string, cause?: unknown) {
+    super(message, cause)
+    this.name = 'BFastHeaderError'
+  }
+}
+
+// The geometry of the VIM is malformed
+export class G3dValidationError extends LoadError {
+  constructor (message: string, cause?: unknown) {
+    super(message, cause)
+    this.name = 'G3dValidationError'
+  }
+}
+
+// The BIM data of the VIM is malformed
+export class EntityTableError extends LoadError {
+  constructor (message: string, cause?: unknown) {
+    super(message, cause)
+    this.name = 'EntityTableError'
+  }
+}
+
+// No loader exists for the file
+export class UnsupportedFormatError extends LoadError {
+  constructor (message: string, cause?: unknown) {
+    super(message, cause)
+    this.name = 'UnsupportedFormatError'
+  }
+}
+
+// Loading was cancelled through an AbortSignal
+export class LoadAbortedError extends LoadError {
+  constructor (message: string = 'Loading was aborted', cause?: unknown) {
+    super(message, cause)
+    this.name = 'LoadAbortedError'
+  }
+}
+
+// Keyed by the name given to each error type
+const errorTypes: Record<string, new (message: string) => LoadError> = {
+  NetworkError,
+  BFastHeaderError,
+  G3dValidationError,
+  EntityTableError,
+  UnsupportedFormatError,
+  LoadAbortedError
+}
+
+// Recreates an error sent across threads, where only name and message survive
+export function createLoadError (name: string, message: string): LoadError {
+  const ErrorType = errorTypes[name] ?? LoadError
+  return new ErrorType(message)
+}
+
+export function throwIfAborted (signal: AbortSignal | undefined) {
+  if (signal?.aborted) throw new LoadAbortedError()
+}
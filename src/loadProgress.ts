@@ -0,0 +1,85 @@
+/**
+ @author VIM / https://vimaec.com
+*/
+
+export type LoadStage =
+  | 'download'
+  | 'parse-bfast'
+  | 'build-geometry'
+  | 'merge'
+  | 'create-meshes'
+  | 'parse-bim'
+
+export interface LoadProgress {
+  stage: LoadStage
+  // Amount processed so far, bytes when downloading, items otherwise
+  loaded: number
+  // Total amount for the stage, undefined when unknown
+  total: number | undefined
+  // 0 to 100, undefined when total is unknown
+  percent: number | undefined
+  // Milliseconds since the stage started
+  elapsed: number
+  message?: string
+}
+
+/**
+ * Tracks the current stage of a load and reports progress for it.
+ */
+export class ProgressReporter {
+  onProgress: ((progress: LoadProgress) => void) | undefined
+  private stage: LoadStage = 'download'
+  private stageStart = now()
+  private loaded = 0
+  private total: number | undefined
+
+  constructor (onProgress?: (progress: LoadProgress) => void) {
+    this.onProgress = onProgress
+  }
+
+  start (stage: LoadStage, total?: number) {
+    this.stage = stage
+    this.stageStart = now()
+    this.loaded = 0
+    this.total = total
+    this.report()
+  }
+
+  update (loaded: number, total: number | undefined = this.total) {
+    this.loaded = loaded
+    this.total = total
+    this.report()
+  }
+
+  end () {
+    if (this.total !== undefined) this.loaded = this.total
+    this.report('Completed')
+  }
+
+  log (message: string) {
+    this.report(message)
+  }
+
+  // Runs a task as a stage of its own
+  time<T> (stage: LoadStage, call: () => T): T {
+    this.start(stage, 1)
+    const result = call()
+    this.end()
+    return result
+  }
+
+  private report (message?: string) {
+    this.onProgress?.({
+      stage: this.stage,
+      loaded: this.loaded,
+      total: this.total,
+      percent: this.total ? (100 * this.loaded) / this.total : undefined,
+      elapsed: now() - this.stageStart,
+      message
+    })
+  }
+}
+
+function now () {
+  return typeof performance !== 'undefined' ? performance.now() : Date.now()
+}
@@ -0,0 +1,80 @@
+/**
+ @author VIM / https://vimaec.com
+*/
+
+import { LoadAbortedError, LoadError } from './loadErrors'
+
+/**
+ * Anything a model can be loaded from: a url, binary data, a file or a stream of bytes.
+ */
+export type LoadSource =
+  | string
+  | ArrayBuffer
+  | Uint8Array
+  | Blob
+  | ReadableStream<Uint8Array>
+
+// Returns the file name of a source, if it has one
+export function getSourceName (source: LoadSource): string | undefined {
+  if (typeof source === 'string') return source
+  if (typeof File !== 'undefined' && source instanceof File) return source.name
+}
+
+/**
+ * Reads all the bytes of a source which is not a url.
+ */
+export async function readSource (
+  source: Exclude<LoadSource, string>,
+  signal?: AbortSignal,
+  onProgress?: (loaded: number, total: number | undefined) => void
+): Promise<Uint8Array> {
+  if (source instanceof ArrayBuffer) return new Uint8Array(source)
+  if (source instanceof Uint8Array) return source
+  if (source instanceof Blob) {
+    return readStream(source.stream(), source.size, signal, onProgress)
+  }
+  return readStream(source, undefined, signal, onProgress)
+}
+
+async function readStream (
+  stream: ReadableStream<Uint8Array>,
+  size: number | undefined,
+  signal: AbortSignal | undefined,
+  onProgress: ((loaded: number, total: number | undefined) => void) | undefined
+): Promise<Uint8Array> {
+  const reader = stream.getReader()
+  const chunks: Uint8Array[] = []
+  let loaded = 0
+  try {
+    for (;;) {
+      if (signal?.aborted) {
+        reader.cancel()
+        throw new LoadAbortedError()
+      }
+      const { done, value } = await reader.read()
+      if (done) break
+      chunks.push(value)
+      loaded += value.byteLength
+      onProgress?.(loaded, size)
+    }
+  } catch (error) {
+    if (error instanceof LoadError) throw error
+    throw new LoadError(`Could not read stream: ${error}`, error)
+  }
+
+  if (chunks.length === 1) return chunks[0]
+  const result = new Uint8Array(loaded)
+  let offset = 0
+  chunks.forEach((c) => {
+    result.set(c, offset)
+    offset += c.byteLength
+  })
+  return result
+}
+
+// True if given bytes start with the BFAST magic number, as VIM files do
+export function isBFast (bytes: Uint8Array): boolean {
+  if (bytes.byteLength < 8) return false
+  const view = new DataView(bytes.buffer, bytes.byteOffset, 8)
+  return view.getInt32(0, true) === 0xbfa5 && view.getInt32(4, true) === 0
+}
@@ -0,0 +1,348 @@
+/**
+ @author VIM / https://vimaec.com
+*/
+
+import * as THREE from 'three'
+import { Model } from './model'
+
+/**
+ * Distance between two points, length of a polyline,
+ * angle at the second of three points, or area of a planar polygon.
+ */
+export type MeasureMode = 'distance' | 'polyline' | 'angle' | 'area'
+
+export interface Measurement {
+  mode: MeasureMode
+  // Model of the first point, values are in its units
+  model: Model | undefined
+  // In world space
+  points: THREE.Vector3[]
+  // Length in model units, area in square model units, or angle in degrees
+  value: number
+}
+
+// Points after which a measurement completes by itself
+const pointCounts: Partial<Record<MeasureMode, number>> = {
+  distance: 2,
+  angle: 3
+}
+
+// Points needed to finish a measurement
+const minPointCounts: Record<MeasureMode, number> = {
+  distance: 2,
+  polyline: 2,
+  angle: 3,
+  area: 3
+}
+
+/**
+ * Returns the value of a measurement from its points, in the units of the points.
+ */
+export function measure (mode: MeasureMode, points: THREE.Vector3[]): number {
+  switch (mode) {
+    case 'distance':
+    case 'polyline': {
+      let length = 0
+      for (let i = 1; i < points.length; i++) {
+        length += points[i].distanceTo(points[i - 1])
+      }
+      return length
+    }
+    case 'angle': {
+      if (points.length < 3) return 0
+      const a = points[0].clone().sub(points[1])
+      const b = points[2].clone().sub(points[1])
+      return THREE.MathUtils.radToDeg(a.angleTo(b))
+    }
+    case 'area': {
+      // Newell's method, the normal of a polygon is twice its area long
+      const normal = new THREE.Vector3()
+      for (let i = 0; i < points.length; i++) {
+        const p = points[i]
+        const q = points[(i + 1) % points.length]
+        normal.x += (p.y - q.y) * (p.z + q.z)
+        normal.y += (p.z - q.z) * (p.x + q.x)
+        normal.z += (p.x - q.x) * (p.y + q.y)
+      }
+      return normal.length() / 2
+    }
+  }
+}
+
+/**
+ * Returns the hit point moved to the nearest vertex of the hit triangle,
+ * or else to its nearest edge, when closer than tolerance. In world space.
+ */
+export function snapPoint (
+  hit: THREE.Intersection<THREE.Object3D>,
+  tolerance: number
+): THREE.Vector3 {
+  const mesh = hit.object
+  if (!(mesh instanceof THREE.Mesh) || !hit.face) return hit.point.clone()
+
+  const matrix = new THREE.Matrix4()
+  if (mesh instanceof THREE.InstancedMesh && hit.instanceId !== undefined) {
+    mesh.getMatrixAt(hit.instanceId, matrix)
+  }
+  matrix.premultiply(mesh.matrixWorld)
+
+  const position = mesh.geometry.getAttribute('position')
+  const corners = [hit.face.a, hit.face.b, hit.face.c].map((i) =>
+    new THREE.Vector3().fromBufferAttribute(position, i).applyMatrix4(matrix)
+  )
+
+  const vertex = nearest(hit.point, corners)
+  if (vertex.distanceTo(hit.point) <= tolerance) return vertex.clone()
+
+  const line = new THREE.Line3()
+  const edges = corners.map((corner, i) =>
+    line
+      .set(corner, corners[(i + 1) % 3])
+      .closestPointToPoint(hit.point, true, new THREE.Vector3())
+  )
+  const edge = nearest(hit.point, edges)
+  return edge.distanceTo(hit.point) <= tolerance ? edge : hit.point.clone()
+}
+
+function nearest (
+  point: THREE.Vector3,
+  candidates: THREE.Vector3[]
+): THREE.Vector3 {
+  return candidates.reduce((a, b) =>
+    a.distanceToSquared(point) <= b.distanceToSquared(point) ? a : b
+  )
+}
+
+/**
+ * Lines, points and a label drawing one measurement.
+ */
+class MeasureOverlay {
+  object = new THREE.Group()
+  private line: THREE.Line
+  private markers: THREE.Points
+  private label: HTMLDivElement
+  // Where the label is shown, in world space
+  private anchor = new THREE.Vector3()
+  private hasText = false
+
+  constructor (lineMaterial: THREE.Material, pointMaterial: THREE.Material) {
+    this.line = new THREE.Line(new THREE.BufferGeometry(), lineMaterial)
+    this.markers = new THREE.Points(new THREE.BufferGeometry(), pointMaterial)
+    // Drawn over the models
+    this.line.renderOrder = this.markers.renderOrder = 1
+    this.line.frustumCulled = this.markers.frustumCulled = false
+    this.object.add(this.line, this.markers)
+
+    const label = document.createElement('div')
+    label.style.position = 'fixed'
+    label.style.pointerEvents = 'none'
+    label.style.padding = '2px 4px'
+    label.style.font = '12px sans-serif'
+    label.style.color = 'white'
+    label.style.background = 'rgba(0, 0, 0, 0.6)'
+    label.style.transform = 'translate(-50%, -50%)'
+    label.style.display = 'none'
+    document.body.appendChild(label)
+    this.label = label
+  }
+
+  update (mode: MeasureMode, points: THREE.Vector3[], text: string | undefined) {
+    // Areas are closed polygons
+    const outline =
+      mode === 'area' && points.length > 2 ? [...points, points[0]] : points
+    this.line.geometry.dispose()
+    this.line.geometry = new THREE.BufferGeometry().setFromPoints(outline)
+    this.markers.geometry.dispose()
+    this.markers.geometry = new THREE.BufferGeometry().setFromPoints(points)
+
+    this.label.textContent = text ?? ''
+    this.hasText = !!text
+    this.anchor.copy(getLabelAnchor(mode, points))
+  }
+
+  // Moves the label over its anchor, hidden when the anchor is behind the camera
+  placeLabel (camera: THREE.Camera) {
+    const ndc = this.anchor.clone().project(camera)
+    const visible = this.hasText && Math.abs(ndc.z) <= 1
+    this.label.style.display = visible ? 'block' : 'none'
+    if (!visible) return
+    this.label.style.left = `${((ndc.x + 1) / 2) * window.innerWidth}px`
+    this.label.style.top = `${((1 - ndc.y) / 2) * window.innerHeight}px`
+  }
+
+  dispose () {
+    this.line.geometry.dispose()
+    this.markers.geometry.dispose()
+    this.label.remove()
+  }
+}
+
+// Middle of a distance, vertex of an angle, last segment of a polyline or center of an area
+function getLabelAnchor (
+  mode: MeasureMode,
+  points: THREE.Vector3[]
+): THREE.Vector3 {
+  const result = new THREE.Vector3()
+  if (points.length === 0) return result
+  if (mode === 'angle') {
+    return result.copy(points[Math.min(1, points.length - 1)])
+  }
+  if (mode === 'area') {
+    points.forEach((p) => result.add(p))
+    return result.divideScalar(points.length)
+  }
+  const last = points.length - 1
+  return result.lerpVectors(points[Math.max(0, last - 1)], points[last], 0.5)
+}
+
+/**
+ * Collects picked points into measurements and draws them with labels.
+ * Completed measurements stay displayed until cleared.
+ */
+export class MeasureTool {
+  // Overlays of all measurements
+  object = new THREE.Group()
+  measurements: Measurement[] = []
+  onComplete: ((measurement: Measurement) => void) | undefined
+  // Suffix of lengths, areas use its square. When empty the unit of the VIM is used, if it has one
+  unit = ''
+  // Number of decimals shown
+  precision = 2
+
+  private mode: MeasureMode | undefined
+  private current: Measurement | undefined
+  private overlays = new Map<Measurement, MeasureOverlay>()
+  private lineMaterial = new THREE.LineBasicMaterial({
+    depthTest: false,
+    transparent: true
+  })
+
+  private pointMaterial = new THREE.PointsMaterial({
+    size: 6,
+    sizeAttenuation: false,
+    depthTest: false,
+    transparent: true
+  })
+
+  setColor (color: THREE.Color) {
+    this.lineMaterial.color.copy(color)
+    this.pointMaterial.color.copy(color)
+  }
+
+  // Mode of the measurements being taken, undefined when not measuring
+  getMode (): MeasureMode | undefined {
+    return this.mode
+  }
+
+  // Starts taking measurements of given mode, the current one is dropped
+  start (mode: MeasureMode) {
+    this.cancel()
+    this.mode = mode
+  }
+
+  // Stops measuring, the current measurement is dropped
+  stop () {
+    this.cancel()
+    this.mode = undefined
+  }
+
+  /**
+   * Adds a point in world space to the current measurement, completing it if it has enough.
+   * @param model model the point is on, whose matrix gives the units
+   */
+  addPoint (point: THREE.Vector3, model: Model | undefined) {
+    if (!this.mode) return
+    if (!this.current) {
+      this.current = { mode: this.mode, model, points: [], value: 0 }
+      const overlay = new MeasureOverlay(this.lineMaterial, this.pointMaterial)
+      this.overlays.set(this.current, overlay)
+      this.object.add(overlay.object)
+    }
+    this.current.points.push(point.clone())
+    this.refresh(this.current)
+
+    if (this.current.points.length === pointCounts[this.mode]) this.finish()
+  }
+
+  // Completes the current measurement, which is dropped if it doesn't have enough points
+  finish () {
+    const measurement = this.current
+    if (!measurement) return
+    if (measurement.points.length < minPointCounts[measurement.mode]) {
+      this.cancel()
+      return
+    }
+    this.current = undefined
+    this.measurements.push(measurement)
+    this.onComplete?.(measurement)
+  }
+
+  // Removes all measurements
+  clear () {
+    this.cancel()
+    this.measurements.forEach((m) => this.remove(m))
+    this.measurements = []
+  }
+
+  // Value of a measurement with its unit
+  format (measurement: Measurement): string {
+    const value = measurement.value.toFixed(this.precision)
+    if (measurement.mode === 'angle') return `${value}°`
+    const unit =
+      this.unit || measurement.model?.vimScene?.getBim()?.getLengthUnit()
+    if (!unit) return value
+    return measurement.mode === 'area'
+      ? `${value} ${unit}²`
+      : `${value} ${unit}`
+  }
+
+  // Redraws all measurements, after the unit or precision changed
+  refreshAll () {
+    this.overlays.forEach((_, m) => this.refresh(m))
+  }
+
+  // Keeps the labels over their measurement, to be called every frame
+  update (camera: THREE.Camera) {
+    this.overlays.forEach((o) => o.placeLabel(camera))
+  }
+
+  dispose () {
+    this.clear()
+    this.lineMaterial.dispose()
+    this.pointMaterial.dispose()
+  }
+
+  private cancel () {
+    if (this.current) this.remove(this.current)
+    this.current = undefined
+  }
+
+  private remove (measurement: Measurement) {
+    const overlay = this.overlays.get(measurement)
+    if (!overlay) return
+    this.object.remove(overlay.object)
+    overlay.dispose()
+    this.overlays.delete(measurement)
+  }
+
+  private refresh (measurement: Measurement) {
+    // Values are measured in model space so that they are in the model units
+    const inverse = measurement.model
+      ? measurement.model.matrix.clone().invert()
+      : new THREE.Matrix4()
+    const points = measurement.points.map((p) =>
+      p.clone().applyMatrix4(inverse)
+    )
+    measurement.value = measure(measurement.mode, points)
+
+    const complete =
+      measurement.points.length >= minPointCounts[measurement.mode]
+    this.overlays
+      .get(measurement)
+      ?.update(
+        measurement.mode,
+        measurement.points,
+        complete ? this.format(measurement) : undefined
+      )
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ @author VIM / https://vimaec.com
+*/
+
+import * as THREE from 'three'
+import { VimScene } from './vim'
+import { LoadedModel } from './viewerLoader'
+
+// Used to provide new IDs for each new model that is loaded.
+let gid = 0
+
+/**
+ * A model loaded in the viewer, with its own transform.
+ * All of its objects are children of a single group, whose matrix is the model transform.
+ */
+export class Model {
+  id = gid++
+  name: string
+  // Only defined for VIM models
+  vimScene: VimScene | undefined
+  // Root of the model in the scene
+  object: THREE.Group
+  // Meshes that can be picked
+  meshes: THREE.Mesh[]
+  // In world space
+  boundingSphere: THREE.Sphere
+  // See-through copies of the meshes which draw ghosted nodes, created on first use
+  private ghosts: THREE.Group | undefined
+
+  constructor (name: string, content: LoadedModel, matrix: THREE.Matrix4) {
+    this.name = name
+    this.object = new THREE.Group()
+    this.object.matrixAutoUpdate = false
+
+    if (content instanceof VimScene) {
+      this.vimScene = content
+      this.meshes = content.geometry.meshes
+      this.object.add(...this.meshes)
+    } else if (content instanceof THREE.BufferGeometry) {
+      content.computeVertexNormals()
+      const mesh = new THREE.Mesh(content)
+      this.meshes = [mesh]
+      this.object.add(mesh)
+    } else {
+      this.meshes = []
+      content.traverse((obj) => {
+        if (obj instanceof THREE.Mesh) this.meshes.push(obj)
+      })
+      this.object.add(content)
+    }
+
+    this.setMatrix(matrix)
+  }
+
+  get matrix (): THREE.Matrix4 {
+    return this.object.matrix
+  }
+
+  /**
+   * Sets the transform of the model.
+   * Use Viewer.setModelMatrix to keep the viewer framing up to date.
+   */
+  setMatrix (matrix: THREE.Matrix4) {
+    this.object.matrix.copy(matrix)
+    this.object.updateMatrixWorld(true)
+    this.boundingSphere = this.computeBoundingSphere()
+  }
+
+  /**
+   * Returns where a world space point would be if the model had not been moved near zero.
+   * Only VIM models far from zero are moved, by the origin of their scene.
+   */
+  toOriginalPosition (point: THREE.Vector3): THREE.Vector3 {
+    const result = point.clone()
+    const origin = this.vimScene?.origin
+    if (!origin || origin.lengthSq() === 0) return result
+    return result
+      .applyMatrix4(this.matrix.clone().invert())
+      .add(origin)
+      .applyMatrix4(this.matrix)
+  }
+
+  // True if the object is part of this model
+  contains (object: THREE.Object3D): boolean {
+    for (let o = object; o; o = o.parent) {
+      if (o === this.object) return true
+    }
+    return false
+  }
+
+  /**
+   * Shows or hides the ghosts of a VIM model, they share the geometry of its meshes.
+   * @param createMaterial called when the ghosts are first shown
+   */
+  showGhosts (show: boolean, createMaterial: () => THREE.Material) {
+    if (!this.ghosts) {
+      if (!show) return
+      const material = createMaterial()
+      this.ghosts = new THREE.Group()
+      this.meshes.forEach((mesh) =>
+        this.ghosts.add(createGhost(mesh, material))
+      )
+      this.object.add(this.ghosts)
+    }
+    this.ghosts.visible = show
+  }
+
+  // Releases all geometries, materials and textures of the model
+  dispose () {
+    const materials = new Set<THREE.Material>()
+    this.object.traverse((obj) => {
+      if (!(obj instanceof THREE.Mesh)) return
+      obj.geometry.dispose()
+      const material = obj.material
+      if (Array.isArray(material)) material.forEach((m) => materials.add(m))
+      else materials.add(material)
+    })
+
+    materials.forEach((material) => {
+      for (const value of Object.values(material)) {
+        if (value instanceof THREE.Texture) value.dispose()
+      }
+      material.dispose()
+    })
+    this.object.clear()
+    this.ghosts = undefined
+  }
+
+  private computeBoundingSphere (): THREE.Sphere {
+    if (this.vimScene) {
+      return this.vimScene.geometry.boundingSphere
+        .clone()
+        .applyMatrix4(this.matrix)
+    }
+
+    let sphere: THREE.Sphere | undefined
+    const grow = (geometry: THREE.BufferGeometry, matrix: THREE.Matrix4) => {
+      geometry.computeBoundingSphere()
+      const current = geometry.boundingSphere!.clone().applyMatrix4(matrix)
+      sphere = sphere ? sphere.union(current) : current
+    }
+
+    const matrix = new THREE.Matrix4()
+    this.object.traverse((obj) => {
+      if (obj instanceof THREE.InstancedMesh) {
+        for (let i = 0; i < obj.count; i++) {
+          obj.getMatrixAt(i, matrix)
+          grow(obj.geometry, matrix.premultiply(obj.matrixWorld))
+        }
+      } else if (obj instanceof THREE.Mesh) {
+        grow(obj.geometry, obj.matrixWorld)
+      }
+    })
+
+    return sphere ?? new THREE.Sphere()
+  }
+}
+
+function createGhost (mesh: THREE.Mesh, material: THREE.Material) {
+  if (!(mesh instanceof THREE.InstancedMesh)) {
+    return new THREE.Mesh(mesh.geometry, material)
+  }
+  const ghost = new THREE.InstancedMesh(mesh.geometry, material, mesh.count)
+  ghost.instanceMatrix = mesh.instanceMatrix
+  return ghost
+}
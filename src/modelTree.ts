@@ -0,0 +1,304 @@
+/**
+ @author VIM / https://vimaec.com
+*/
+
+import { Model } from './model'
+
+export interface ModelTreeNode {
+  name: string
+  // Elements under this node, a single one for element nodes
+  elementIds: number[]
+  // Sorted by name, empty for element nodes
+  children: ModelTreeNode[]
+  parent: ModelTreeNode | undefined
+}
+
+// Levels of the tree under the model, an element is under the node of each of its values
+const levels = ['level', 'category', 'family', 'type'] as const
+const missingNames = {
+  level: '(No level)',
+  category: '(No category)',
+  family: '(No family)',
+  type: '(No type)'
+}
+
+/**
+ * Builds the model, level, category, family, type and element hierarchy of a VIM model.
+ * Only elements with nodes are included, undefined until the bim is loaded.
+ */
+export function buildModelTree (model: Model): ModelTreeNode | undefined {
+  const vimScene = model.vimScene
+  const bim = vimScene?.getBim()
+  if (!bim) return
+
+  const root = createNode(model.name, undefined)
+  vimScene.elementToNodes.forEach((_, elementId) => {
+    const index = bim.getElementIndex(elementId)
+    if (index === undefined) return
+    const properties = bim.getElementProperties(index, false)
+
+    let node = root
+    node.elementIds.push(elementId)
+    levels.forEach((level) => {
+      const name = properties[level] ?? missingNames[level]
+      let child = node.children.find((c) => c.name === name)
+      if (!child) {
+        child = createNode(name, node)
+        node.children.push(child)
+      }
+      node = child
+      node.elementIds.push(elementId)
+    })
+    const element = createNode(
+      `${properties.name ?? 'Element'} [${elementId}]`,
+      node
+    )
+    element.elementIds.push(elementId)
+    node.children.push(element)
+  })
+  sortNode(root)
+  return root
+}
+
+function createNode (
+  name: string,
+  parent: ModelTreeNode | undefined
+): ModelTreeNode {
+  return { name, elementIds: [], children: [], parent }
+}
+
+function sortNode (node: ModelTreeNode) {
+  node.children.sort((a, b) =>
+    a.name.localeCompare(b.name, undefined, { numeric: true })
+  )
+  node.children.forEach(sortNode)
+}
+
+/**
+ * What the tree view asks of the viewer.
+ */
+export interface ModelTreeActions {
+  // A node was clicked, with all the elements under it
+  select: (model: Model, elementIds: number[]) => void
+  setVisible: (model: Model, elementIds: number[], visible: boolean) => void
+  isVisible: (model: Model, elementId: number) => boolean
+}
+
+type Root = { model: Model; node: ModelTreeNode }
+
+/**
+ * Panel on the left of the window browsing the element hierarchy of VIM models.
+ * Nodes have a checkbox showing or hiding their elements, and a search box filters them by name.
+ */
+export class ModelTreeView {
+  dom: HTMLDivElement
+  private actions: ModelTreeActions
+  private list: HTMLDivElement
+  private roots: Root[] = []
+  private expanded = new Set<ModelTreeNode>()
+  private selected: ModelTreeNode | undefined
+  private filter = ''
+  // Visible elements under each node, computed when visibility changes
+  private visibleCounts = new Map<ModelTreeNode, number>()
+
+  constructor (actions: ModelTreeActions) {
+    this.actions = actions
+
+    const panel = document.createElement('div')
+    panel.style.position = 'fixed'
+    panel.style.top = '150px'
+    panel.style.left = '16px'
+    panel.style.width = '280px'
+    panel.style.maxHeight = 'calc(100vh - 180px)'
+    panel.style.display = 'flex'
+    panel.style.flexDirection = 'column'
+    panel.style.padding = '8px'
+    panel.style.font = '12px sans-serif'
+    panel.style.background = 'rgba(255, 255, 255, 0.9)'
+    document.body.appendChild(panel)
+    this.dom = panel
+
+    const search = document.createElement('input')
+    search.type = 'search'
+    search.placeholder = 'Search'
+    search.style.marginBottom = '4px'
+    search.addEventListener('input', () => {
+      this.filter = search.value.trim().toLowerCase()
+      this.refresh()
+    })
+    panel.appendChild(search)
+
+    const list = document.createElement('div')
+    list.style.overflowY = 'auto'
+    panel.appendChild(list)
+    this.list = list
+  }
+
+  // Rebuilds the trees of given models, models whose bim is not loaded are left out
+  setModels (models: Model[]) {
+    this.roots = []
+    models.forEach((model) => {
+      const node = buildModelTree(model)
+      if (node) this.roots.push({ model, node })
+    })
+    this.expanded.clear()
+    this.roots.forEach((r) => this.expanded.add(r.node))
+    this.selected = undefined
+    this.visibleCounts.clear()
+    this.roots.forEach((r) => this.countVisible(r.model, r.node))
+    this.refresh()
+  }
+
+  // Redraws the rows after the visibility of elements of given model changed
+  refreshVisibility (model: Model) {
+    const root = this.roots.find((r) => r.model === model)
+    if (root) this.countVisible(model, root.node)
+    this.refresh()
+  }
+
+  /**
+   * Expands the tree down to the first of given elements and marks it.
+   * Nothing changes if these are the elements of the marked node.
+   */
+  reveal (model: Model | undefined, elementIds: number[]) {
+    const root = this.roots.find((r) => r.model === model)
+    if (!root || !elementIds.length) {
+      this.selected = undefined
+      this.refresh()
+      return
+    }
+    if (this.selected && sameElements(this.selected.elementIds, elementIds)) {
+      return
+    }
+
+    this.selected = findElement(root.node, elementIds[0])
+    for (let n = this.selected?.parent; n; n = n.parent) this.expanded.add(n)
+    this.refresh()
+    this.list
+      .querySelector('[data-selected]')
+      ?.scrollIntoView({ block: 'nearest' })
+  }
+
+  // Redraws the rows, after the selection or expanded nodes changed
+  refresh () {
+    this.list.textContent = ''
+    this.roots.forEach((root) => {
+      const matches = new Map<ModelTreeNode, boolean>()
+      this.matchFilter(root.node, matches)
+      this.addRow(root, root.node, 0, matches)
+    })
+  }
+
+  dispose () {
+    this.dom.remove()
+  }
+
+  /**
+   * Adds the row of a node, and of its children when expanded.
+   * @param inMatch true under a node matching the search, whose whole subtree is shown
+   */
+  private addRow (
+    root: Root,
+    node: ModelTreeNode,
+    depth: number,
+    matches: Map<ModelTreeNode, boolean>,
+    inMatch: boolean = false
+  ) {
+    if (!inMatch && !matches.get(node)) return
+    const isMatch =
+      !!this.filter && node.name.toLowerCase().includes(this.filter)
+    // Searching expands the nodes with matches under them
+    const expanded =
+      this.expanded.has(node) ||
+      (!inMatch && !!this.filter && node.children.some((c) => matches.get(c)))
+
+    const row = document.createElement('div')
+    row.style.display = 'flex'
+    row.style.alignItems = 'center'
+    row.style.paddingLeft = `${depth * 12}px`
+    row.style.whiteSpace = 'nowrap'
+    if (node === this.selected) {
+      row.dataset.selected = ''
+      row.style.background = 'rgba(0, 85, 255, 0.2)'
+    }
+
+    const toggle = document.createElement('span')
+    toggle.style.width = '12px'
+    toggle.style.cursor = 'pointer'
+    toggle.textContent = node.children.length ? (expanded ? '▾' : '▸') : ''
+    toggle.addEventListener('click', () => {
+      if (this.expanded.has(node)) this.expanded.delete(node)
+      else this.expanded.add(node)
+      this.refresh()
+    })
+
+    const visible = this.visibleCounts.get(node) ?? 0
+    const checkbox = document.createElement('input')
+    checkbox.type = 'checkbox'
+    checkbox.checked = visible === node.elementIds.length
+    checkbox.indeterminate = visible > 0 && !checkbox.checked
+    checkbox.addEventListener('change', () =>
+      this.actions.setVisible(root.model, node.elementIds, checkbox.checked)
+    )
+
+    const label = document.createElement('span')
+    label.style.cursor = 'pointer'
+    label.style.overflow = 'hidden'
+    label.style.textOverflow = 'ellipsis'
+    label.textContent = node.name
+    label.title = node.name
+    label.addEventListener('click', () => {
+      this.selected = node
+      this.actions.select(root.model, node.elementIds)
+      this.refresh()
+    })
+
+    row.append(toggle, checkbox, label)
+    this.list.appendChild(row)
+    if (expanded) {
+      node.children.forEach((c) =>
+        this.addRow(root, c, depth + 1, matches, inMatch || isMatch)
+      )
+    }
+  }
+
+  // Counts the visible elements under a node and each of its descendants, once per element
+  private countVisible (model: Model, node: ModelTreeNode): number {
+    const count = node.children.length
+      ? node.children.reduce((sum, c) => sum + this.countVisible(model, c), 0)
+      : node.elementIds.filter((id) => this.actions.isVisible(model, id)).length
+    this.visibleCounts.set(node, count)
+    return count
+  }
+
+  // Finds the nodes matching the search or with matches under them
+  private matchFilter (
+    node: ModelTreeNode,
+    matches: Map<ModelTreeNode, boolean>
+  ): boolean {
+    let match = !this.filter || node.name.toLowerCase().includes(this.filter)
+    node.children.forEach((c) => {
+      if (this.matchFilter(c, matches)) match = true
+    })
+    matches.set(node, match)
+    return match
+  }
+}
+
+function findElement (
+  node: ModelTreeNode,
+  elementId: number
+): ModelTreeNode | undefined {
+  if (!node.elementIds.includes(elementId)) return
+  if (!node.children.length) return node
+  for (const child of node.children) {
+    const result = findElement(child, elementId)
+    if (result) return result
+  }
+}
+
+function sameElements (a: number[], b: number[]): boolean {
+  if (a.length !== b.length) return false
+  const set = new Set(a)
+  return b.every((id) => set.has(id))
+}
@@ -0,0 +1,120 @@
+/**
+ @author VIM / https://vimaec.com
+*/
+
+import { LoadAbortedError, NetworkError } from './loadErrors'
+
+/**
+ * Fetches byte ranges of a remote file on demand using http range requests.
+ * Falls back to a single full download when the server ignores ranges.
+ */
+export class RemoteBuffer {
+  url: string
+  signal: AbortSignal | undefined
+  // Total size of the remote file, known after the first response
+  size: number | undefined
+  onProgress: ((loaded: number, total: number | undefined) => void) | undefined
+
+  private loaded = 0
+  private full: Promise<Uint8Array> | undefined
+
+  constructor (url: string, signal?: AbortSignal) {
+    this.url = url
+    this.signal = signal
+  }
+
+  // Returns the bytes in [start, end) of the remote file
+  async http (start: number, end: number): Promise<Uint8Array> {
+    if (this.full) {
+      return (await this.full).subarray(start, end)
+    }
+
+    const response = await this.fetch({ Range: `bytes=${start}-${end - 1}` })
+    if (response.status === 206) {
+      if (this.size === undefined) {
+        this.size = parseContentRangeSize(response.headers.get('Content-Range'))
+      }
+      const bytes = new Uint8Array(await this.read(response.arrayBuffer()))
+      this.report(bytes.byteLength)
+      return bytes
+    }
+
+    // The server ignored the range, the whole file is coming down
+    this.full = this.readAll(response)
+    const full = await this.full
+    this.size = full.byteLength
+    return full.subarray(start, end)
+  }
+
+  // Downloads the whole file
+  async all (): Promise<Uint8Array> {
+    if (!this.full) {
+      this.full = this.fetch().then((response) => this.readAll(response))
+    }
+    return this.full
+  }
+
+  private async fetch (headers?: Record<string, string>): Promise<Response> {
+    const response = await this.read(
+      fetch(this.url, { headers, signal: this.signal })
+    )
+    if (!response.ok) {
+      throw new NetworkError(
+        `Could not fetch ${this.url}: ${response.status} ${response.statusText}`,
+        response.status
+      )
+    }
+    return response
+  }
+
+  // Converts failures of network reads into load errors
+  private async read<T> (promise: Promise<T>): Promise<T> {
+    try {
+      return await promise
+    } catch (error) {
+      if (this.signal?.aborted) throw new LoadAbortedError()
+      throw new NetworkError(
+        `Could not fetch ${this.url}: ${error}`,
+        undefined,
+        error
+      )
+    }
+  }
+
+  private async readAll (response: Response): Promise<Uint8Array> {
+    // Content-Length is the encoded size when the response is compressed
+    const encoded = response.headers.get('Content-Encoding')
+    const length = Number(response.headers.get('Content-Length'))
+    if (!response.body || !length || encoded) {
+      const bytes = new Uint8Array(await this.read(response.arrayBuffer()))
+      this.size = bytes.byteLength
+      this.report(bytes.byteLength)
+      return bytes
+    }
+
+    this.size = length
+    const result = new Uint8Array(length)
+    const reader = response.body.getReader()
+    let offset = 0
+    for (;;) {
+      const { done, value } = await this.read(reader.read())
+      if (done) break
+      result.set(value, offset)
+      offset += value.byteLength
+      this.report(value.byteLength)
+    }
+    return result.subarray(0, offset)
+  }
+
+  private report (bytes: number) {
+    this.loaded += bytes
+    this.onProgress?.(this.loaded, this.size)
+  }
+}
+
+function parseContentRangeSize (header: string | null): number | undefined {
+  // Format is: bytes <start>-<end>/<size>
+  const size = header?.split('/')[1]
+  if (!size || size === '*') return
+  return Number(size)
+}
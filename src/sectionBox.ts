@@ -0,0 +1,245 @@
+/**
+ @author VIM / https://vimaec.com
+*/
+
+import * as THREE from 'three'
+
+// Faces are ordered min x, max x, min y, max y, min z, max z
+const faceCount = 6
+// Faces can't be dragged closer than this to the opposite face
+const minSize = 0.01
+// Radius of the handles relative to the largest side of the box
+const handleSize = 0.03
+const color = 0x00aaff
+
+type Drag = {
+  face: number
+  // Where the face was grabbed, and its position at that time
+  origin: THREE.Vector3
+  value: number
+}
+
+/**
+ * Six clipping planes around a box in world space.
+ * Each face is moved by dragging the handle at its center.
+ * Planes face inward, only what is inside the box is drawn.
+ */
+export class SectionBox {
+  // One per face, kept up to date with the box
+  planes: THREE.Plane[] = []
+  // Outline, handles and the face of the handle under the mouse, visible while enabled
+  object = new THREE.Group()
+  private box = new THREE.Box3()
+  private outline: THREE.Box3Helper
+  private handles: THREE.Mesh[] = []
+  private highlight: THREE.Mesh
+  private drag: Drag | undefined
+
+  constructor () {
+    for (let i = 0; i < faceCount; i++) this.planes.push(new THREE.Plane())
+    this.outline = new THREE.Box3Helper(this.box, new THREE.Color(color))
+
+    const handleGeometry = new THREE.SphereBufferGeometry(1, 16, 8)
+    const handleMaterial = new THREE.MeshBasicMaterial({
+      color,
+      depthTest: false
+    })
+    for (let i = 0; i < faceCount; i++) {
+      this.handles.push(new THREE.Mesh(handleGeometry, handleMaterial))
+    }
+
+    const geometry = new THREE.BufferGeometry()
+    geometry.setAttribute(
+      'position',
+      new THREE.BufferAttribute(new Float32Array(12), 3)
+    )
+    geometry.setIndex([0, 1, 2, 0, 2, 3])
+    this.highlight = new THREE.Mesh(
+      geometry,
+      new THREE.MeshBasicMaterial({
+        color,
+        opacity: 0.2,
+        transparent: true,
+        depthTest: false,
+        side: THREE.DoubleSide
+      })
+    )
+    this.highlight.visible = false
+    // Positions are in world space, bounds change with every drag
+    this.highlight.frustumCulled = false
+
+    this.object.add(this.outline, this.highlight, ...this.handles)
+    this.object.visible = false
+  }
+
+  get enabled (): boolean {
+    return this.object.visible
+  }
+
+  getBox (): THREE.Box3 {
+    return this.box.clone()
+  }
+
+  // Moves the box and enables it
+  setBox (box: THREE.Box3) {
+    this.box.copy(box)
+    this.update()
+    this.object.visible = true
+  }
+
+  disable () {
+    this.endDrag()
+    this.hover(undefined)
+    this.object.visible = false
+  }
+
+  /**
+   * Shows the face of the handle hit by given ray.
+   * Hides it when the ray is undefined or misses all handles.
+   */
+  hover (ray: THREE.Ray | undefined) {
+    if (this.drag) return
+    const face = ray && this.pickFace(ray)?.[0]
+    this.showFace(face)
+  }
+
+  // Grabs the face of the handle hit by given ray, returns false if there is none
+  startDrag (ray: THREE.Ray): boolean {
+    const picked = this.pickFace(ray)
+    if (!picked) return false
+    const [face, origin] = picked
+    this.drag = { face, origin, value: this.getFaceValue(face) }
+    this.showFace(face)
+    return true
+  }
+
+  // Moves the grabbed face to the point of its axis closest to given ray
+  moveDrag (ray: THREE.Ray) {
+    if (!this.drag) return
+    const { face, origin, value } = this.drag
+    const axis = new THREE.Vector3().setComponent(face >> 1, 1)
+    const offset = closestOnAxis(origin, axis, ray)
+    if (offset === undefined) return
+
+    const i = face >> 1
+    const min = this.box.min.getComponent(i)
+    const max = this.box.max.getComponent(i)
+    if (face & 1) {
+      this.box.max.setComponent(i, Math.max(value + offset, min + minSize))
+    } else {
+      this.box.min.setComponent(i, Math.min(value + offset, max - minSize))
+    }
+    this.update()
+  }
+
+  endDrag () {
+    this.drag = undefined
+  }
+
+  isDragging (): boolean {
+    return !!this.drag
+  }
+
+  dispose () {
+    // Handles share their geometry and material
+    const meshes = [this.outline, this.highlight, this.handles[0]]
+    meshes.forEach((m) => {
+      const material = m.material as THREE.Material
+      m.geometry.dispose()
+      material.dispose()
+    })
+  }
+
+  // Returns the face of the nearest handle hit by given ray, with the handle center
+  private pickFace (ray: THREE.Ray): [number, THREE.Vector3] | undefined {
+    if (!this.enabled) return
+    const radius = this.getHandleRadius()
+    let result: [number, THREE.Vector3] | undefined
+    let nearest = Infinity
+    this.handles.forEach((handle, face) => {
+      const center = handle.position
+      if (ray.distanceSqToPoint(center) > radius * radius) return
+      const distance = ray.origin.distanceTo(center)
+      if (distance < nearest) {
+        nearest = distance
+        result = [face, center.clone()]
+      }
+    })
+    return result
+  }
+
+  private getHandleRadius (): number {
+    const size = this.box.getSize(new THREE.Vector3())
+    return Math.max(size.x, size.y, size.z) * handleSize
+  }
+
+  private getFaceValue (face: number): number {
+    const corner = face & 1 ? this.box.max : this.box.min
+    return corner.getComponent(face >> 1)
+  }
+
+  // Updates the planes, handles and highlighted face after the box changed
+  private update () {
+    const center = this.box.getCenter(new THREE.Vector3())
+    const radius = this.getHandleRadius()
+    for (let face = 0; face < faceCount; face++) {
+      const normal = new THREE.Vector3().setComponent(
+        face >> 1,
+        face & 1 ? -1 : 1
+      )
+      const point = face & 1 ? this.box.max : this.box.min
+      this.planes[face].setFromNormalAndCoplanarPoint(normal, point)
+
+      const handle = this.handles[face]
+      handle.position
+        .copy(center)
+        .setComponent(face >> 1, this.getFaceValue(face))
+      handle.scale.setScalar(radius)
+    }
+    if (this.drag) this.showFace(this.drag.face)
+  }
+
+  private showFace (face: number | undefined) {
+    this.highlight.visible = face !== undefined
+    if (face === undefined) return
+
+    // The two other axes span the face
+    const i = face >> 1
+    const j = (i + 1) % 3
+    const k = (i + 2) % 3
+    const value = this.getFaceValue(face)
+    const position = this.highlight.geometry.getAttribute(
+      'position'
+    ) as THREE.BufferAttribute
+    const corner = new THREE.Vector3()
+    for (let c = 0; c < 4; c++) {
+      corner.setComponent(i, value)
+      corner.setComponent(
+        j,
+        (c === 1 || c === 2 ? this.box.max : this.box.min).getComponent(j)
+      )
+      corner.setComponent(
+        k,
+        (c >= 2 ? this.box.max : this.box.min).getComponent(k)
+      )
+      position.setXYZ(c, corner.x, corner.y, corner.z)
+    }
+    position.needsUpdate = true
+  }
+}
+
+/**
+ * Returns how far along a unit axis through origin is the point closest to a ray,
+ * undefined if they are parallel.
+ */
+function closestOnAxis (
+  origin: THREE.Vector3,
+  axis: THREE.Vector3,
+  ray: THREE.Ray
+): number | undefined {
+  const w = origin.clone().sub(ray.origin)
+  const b = axis.dot(ray.direction)
+  const denominator = 1 - b * b
+  if (denominator < 1e-6) return
+  return (b * ray.direction.dot(w) - axis.dot(w)) / denominator
+}
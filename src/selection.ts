@@ -1,5 +1,11 @@
 import * as THREE from 'three'
 import { Viewer } from './viewer'
+import { Model } from './model'
+
+/**
+ * How picked nodes are combined with the current selection.
+ */
+export type SelectionMode = 'replace' | 'add' | 'remove' | 'toggle'
 
 // TODO: Fix circular dependency
 export class Selection {
@@ -7,41 +13,108 @@ export class Selection {
   viewer: Viewer
 
   // State
-  nodeIndex: number | null = null
+  // Around all selected nodes, in world space
+  boundingBox: THREE.Box3 | null = null
   boundingSphere: THREE.Sphere | null = null
-
-  // Disposable State
-  geometry: THREE.BufferGeometry | null = null
-  highlightDisposer: Function | null = null
+  private nodes = new Map<Model, Set<number>>()
 
   constructor (viewer: Viewer) {
     this.viewer = viewer
   }
 
   hasSelection () {
-    return this.nodeIndex !== null
+    return this.nodes.size > 0
+  }
+
+  has (model: Model, nodeIndex: number): boolean {
+    return !!this.nodes.get(model)?.has(nodeIndex)
+  }
+
+  // Models with at least one selected node
+  getModels (): Model[] {
+    return Array.from(this.nodes.keys())
+  }
+
+  getNodeIndices (model: Model): number[] {
+    return Array.from(this.nodes.get(model) ?? [])
+  }
+
+  // Ids of the elements of all selected nodes, without duplicates
+  getElementIds (model: Model): number[] {
+    const result = new Set<number>()
+    this.nodes.get(model)?.forEach((node) => {
+      const id = model.vimScene?.getElementIdFromNodeIndex(node)
+      if (id !== undefined) result.add(id)
+    })
+    return Array.from(result)
   }
 
   reset () {
-    this.nodeIndex = null
+    this.nodes.forEach((nodes, model) =>
+      nodes.forEach((node) => model.vimScene?.setNodeHighlight(node, false))
+    )
+    this.nodes.clear()
+    this.boundingBox = null
     this.boundingSphere = null
-    this.disposeResources()
   }
 
-  disposeResources () {
-    this.geometry?.dispose()
-    this.geometry = null
+  select (model: Model, nodeIndex: number) {
+    this.update(model, [nodeIndex], 'replace')
+  }
+
+  // Combines given nodes with the selection
+  update (model: Model, nodeIndices: number[], mode: SelectionMode) {
+    if (mode === 'replace') this.reset()
+    nodeIndices.forEach((node) => {
+      const remove =
+        mode === 'remove' || (mode === 'toggle' && this.has(model, node))
+      if (remove) this.remove(model, node)
+      else this.add(model, node)
+    })
+    this.updateBounds()
+  }
+
+  // Removes all nodes of given model from the selection
+  removeModel (model: Model) {
+    this.getNodeIndices(model).forEach((node) => this.remove(model, node))
+    this.updateBounds()
+  }
+
+  // Updates the bounds, after the transform of a model changed
+  refresh () {
+    this.updateBounds()
+  }
+
+  private add (model: Model, nodeIndex: number) {
+    let nodes = this.nodes.get(model)
+    if (!nodes) {
+      nodes = new Set()
+      this.nodes.set(model, nodes)
+    }
+    nodes.add(nodeIndex)
+    model.vimScene?.setNodeHighlight(nodeIndex, true)
+  }
 
-    this.highlightDisposer?.()
-    this.highlightDisposer = null
+  private remove (model: Model, nodeIndex: number) {
+    const nodes = this.nodes.get(model)
+    if (!nodes?.delete(nodeIndex)) return
+    if (nodes.size === 0) this.nodes.delete(model)
+    model.vimScene?.setNodeHighlight(nodeIndex, false)
   }
 
-  select (nodeIndex: number) {
-    this.disposeResources()
-    this.nodeIndex = nodeIndex
-    this.geometry = this.viewer.createBufferGeometryFromNodeId(nodeIndex)
-    this.geometry.computeBoundingSphere()
-    this.boundingSphere = this.geometry.boundingSphere
-    this.highlightDisposer = this.viewer.highlight(this.geometry)
+  private updateBounds () {
+    const box = new THREE.Box3()
+    const nodeBox = new THREE.Box3()
+    this.nodes.forEach((nodes, model) => {
+      nodes.forEach((node) => {
+        if (model.vimScene?.getNodeBoundingBox(node, nodeBox)) {
+          box.union(nodeBox.applyMatrix4(model.matrix))
+        }
+      })
+    })
+    this.boundingBox = box.isEmpty() ? null : box
+    this.boundingSphere = box.isEmpty()
+      ? null
+      : box.getBoundingSphere(new THREE.Sphere())
   }
 }
@@ -2,8 +2,9 @@ import * as THREE from 'three'
 
 export function createBufferGeometryFromArrays (
   vertices: Float32Array,
-  indices: Int32Array,
-  vertexColors: Float32Array | undefined = undefined
+  indices: Int32Array | Uint32Array,
+  vertexColors: Float32Array | undefined = undefined,
+  colorArity: number = 3
 ): THREE.BufferGeometry {
   const geometry = new THREE.BufferGeometry()
 
@@ -11,11 +12,18 @@ export function createBufferGeometryFromArrays (
   geometry.setAttribute('position', new THREE.BufferAttribute(vertices, 3))
 
   // Indices
-  geometry.setIndex(new THREE.Uint32BufferAttribute(indices, 1))
+  geometry.setIndex(
+    indices instanceof Uint32Array
+      ? new THREE.BufferAttribute(indices, 1)
+      : new THREE.Uint32BufferAttribute(indices, 1)
+  )
 
   // Colors
   if (vertexColors) {
-    geometry.setAttribute('color', new THREE.BufferAttribute(vertexColors, 3))
+    geometry.setAttribute(
+      'color',
+      new THREE.BufferAttribute(vertexColors, colorArity)
+    )
   }
 
   return geometry
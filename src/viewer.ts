@@ -3,23 +3,106 @@
 */
 
 import * as THREE from 'three'
-import deepmerge from 'deepmerge'
-import { VimScene } from './vim'
-import { ViewerSettings } from './viewerSettings'
+import {
+  ColorRGB,
+  defaultViewerSettings,
+  isColorRGB,
+  isVector3,
+  MaterialSettings,
+  mergeSettings,
+  Vector3,
+  ViewerOptions,
+  ViewerSettings
+} from './viewerSettings'
 import { ViewerCamera } from './viewerCamera'
 import { ViewerInput } from './viewerInput'
 import { ViewerGui } from './viewerGui'
-import { loadAny } from './viewerLoader'
+import { GUI } from 'dat.gui'
+import { loadAny, LoadOptions } from './viewerLoader'
+import { LoadAbortedError } from './loadErrors'
+import { getSourceName, LoadSource } from './loadSource'
+import { Model } from './model'
+import {
+  ViewerErrorEvent,
+  LoadProgressEvent,
+  NodeInfo,
+  ViewerEvent
+} from './viewerEvents'
 import Stats from 'stats.js'
-import { Selection } from './selection'
-import { ViewerEnvironment } from './viewerEnvironment'
+import { Selection, SelectionMode } from './selection'
+import { getNodesInRect } from './boxSelection'
+import {
+  createGhostMaterial,
+  createVimMaterialUniforms,
+  NodeVisibility,
+  patchVimMaterial
+} from './vimMaterial'
+import { ViewerEnvironment } from './ViewerEnvironment'
 import { ViewerRenderer } from './viewerRenderer'
 import { ViewerDocument } from './ViewerDocument'
-import { BufferGeometryBuilder } from './VIMLoader'
+import { SectionBox } from './sectionBox'
+import { Measurement, MeasureMode, MeasureTool, snapPoint } from './measure'
+import { Inspector } from './inspector'
+import { ModelTreeView } from './modelTree'
+import { ElementQuery, queryElements } from './elementQuery'
+
+export {
+  LoadError,
+  NetworkError,
+  BFastHeaderError,
+  G3dValidationError,
+  EntityTableError,
+  UnsupportedFormatError,
+  LoadAbortedError
+} from './loadErrors'
+export type { LoadProgress, LoadStage } from './loadProgress'
+export type { ViewerOptions } from './viewerSettings'
+export { Model } from './model'
+export type { SelectionMode } from './selection'
+export type { NodeVisibility } from './vimMaterial'
+export type { Measurement, MeasureMode } from './measure'
+export { BimData, EntityTable } from './bim'
+export type {
+  ElementParameter,
+  ElementProperties,
+  EntityProperty,
+  EntityValue
+} from './bim'
+export { buildModelTree } from './modelTree'
+export type { ElementQuery, ParameterFilter, ValueFilter } from './elementQuery'
+export type { ModelTreeNode } from './modelTree'
+export { buildLegend } from './colorLegend'
+export type { LegendEntry } from './colorLegend'
+export { ViewerEvent } from './viewerEvents'
+export type {
+  NodeInfo,
+  LoadProgressEvent,
+  ViewerErrorEvent
+} from './viewerEvents'
+
+export interface ElementQueryResult {
+  model: Model | undefined
+  elementIds: number[]
+  // All nodes of the elements
+  nodeIndices: number[]
+}
+
+export interface ViewerLoadOptions extends LoadOptions {
+  // Transform of the model, defaults to the object settings
+  matrix?: THREE.Matrix4
+}
+
+// Measure points snap within this distance, relative to their distance from the camera
+const measureSnap = 0.02
 
 export class Viewer {
   stats: any
-  settings: any
+  settings: ViewerSettings
+  gui: GUI | undefined
+  // Properties of the selected element, undefined when showInspector is off
+  inspector: Inspector | undefined
+  // Element hierarchy of the models, undefined when showModelTree is off
+  modelTree: ModelTreeView | undefined
 
   htmlDocument: ViewerDocument
   environment: ViewerEnvironment
@@ -27,32 +110,61 @@ export class Viewer {
   selection: Selection
   cameraController: ViewerCamera
   controls: ViewerInput
+  // Disabled until set with setSectionBox or sectionSelection
+  sectionBox = new SectionBox()
+  measureTool = new MeasureTool()
+
+  // All models currently in the scene, in load order
+  models: Model[] = []
 
-  vimScene: VimScene | undefined
+  // Events
+  // Model is fully loaded, for VIM this is after BIM data
+  onModelLoaded = new ViewerEvent<Model>()
+  // All selected nodes, empty when selection is cleared
+  onSelectionChanged = new ViewerEvent<NodeInfo[]>()
+  // Node under the mouse, undefined when leaving it
+  onHover = new ViewerEvent<NodeInfo | undefined>()
+  onCameraMoved = new ViewerEvent<THREE.PerspectiveCamera>()
+  onLoadProgress = new ViewerEvent<LoadProgressEvent>()
+  // Loads that failed, except aborted ones
+  onError = new ViewerEvent<ViewerErrorEvent>()
+  // Measurement completed with the measure tool, with points in the original coordinates of its model
+  onMeasure = new ViewerEvent<Measurement>()
 
-  constructor (options: Record<string, unknown>) {
-    this.settings = deepmerge(ViewerSettings.default, options, undefined)
+  // Shared by the materials of all vim models
+  private materialUniforms = createVimMaterialUniforms()
+  // Shared by the materials of all models, section box planes followed by clipping planes
+  private clippingPlanes: THREE.Plane[] = []
+  private planes: THREE.Plane[] = []
+  // Model space origin subtracted from all VIM models, found from the first one loaded.
+  // Resolves once a model being loaded finds it, to undefined if none of them does.
+  private origin: Promise<number[] | undefined> | undefined
+  private hovered: NodeInfo | undefined
+  private cameraMatrix = new THREE.Matrix4()
+  private animationFrame: number | undefined
+  // Aborted on dispose
+  private loads = new Set<AbortController>()
+  private disposed = false
+
+  constructor (options: ViewerOptions = {}) {
+    this.settings = mergeSettings(defaultViewerSettings, options)
     this.htmlDocument = new ViewerDocument(this.settings)
 
-    // Create a new DAT.gui controller
-    if (this.settings.showGui) {
-      ViewerGui.bind(this.settings, (settings) => {
-        this.settings = settings
-        this.ApplySettings()
-      })
-    }
+    this.updateGui()
     this.render = new ViewerRenderer(this.htmlDocument.canvas)
     this.cameraController = new ViewerCamera(this.render.camera, this.settings)
 
     this.environment = ViewerEnvironment.createDefault()
+    this.render.addToScene(this.environment.getElements())
+    this.render.addToScene([this.sectionBox.object, this.measureTool.object])
+    // Reported in the original coordinates of far away models
+    this.measureTool.onComplete = (m) =>
+      this.onMeasure.dispatch({
+        ...m,
+        points: m.points.map((p) => m.model?.toOriginalPosition(p) ?? p)
+      })
 
-    // Add Stats display
-    if (this.settings.showStats) {
-      this.stats = new Stats()
-      this.stats.dom.style.top = '84px'
-      this.stats.dom.style.left = '16px'
-      document.body.appendChild(this.stats.dom)
-    }
+    this.updateStats()
 
     // Input and Selection
     this.controls = new ViewerInput(
@@ -63,13 +175,23 @@ export class Viewer {
     this.controls.register()
     this.selection = new Selection(this)
 
+    // Panels showing the selection
+    this.updateInspector()
+    this.updateModelTree()
+    this.onSelectionChanged.subscribe((nodes) => {
+      this.refreshInspector()
+      this.revealInModelTree(nodes)
+    })
+
     // Add all of the appropriate mouse, touch-pad, and keyboard listeners
     // Load Vim
-    loadAny(
-      this.settings.url,
-      this.loadInScene.bind(this),
-      this.settings.fileExtension
-    )
+    if (this.settings.url) {
+      this.load(this.settings.url, {
+        fileExtension: this.settings.fileExtension
+      }).catch((error) =>
+        console.error(`Could not load ${this.settings.url}`, error)
+      )
+    }
 
     // Start Loop
     this.ApplySettings()
@@ -78,59 +200,224 @@ export class Viewer {
 
   prepareDocument () {}
 
-  loadInScene (
-    result:
-      | VimScene
-      | THREE.Scene
-      | THREE.Group
-      | THREE.Object3D
-      | THREE.BufferGeometry
-  ) {
-    if (result instanceof VimScene) {
-      this.onVimLoaded(result)
-    } else if (result instanceof THREE.Scene) {
-      result.traverse((obj) => {
-        if (obj instanceof THREE.Mesh) this.render.addToModel([obj])
+  /**
+   * Loads a model from a url, binary data, file or stream and adds it to the scene.
+   * VIM geometry is displayed before the promise resolves, once BIM data is loaded.
+   * Rejects with a LoadError, LoadAbortedError if the signal was aborted.
+   */
+  async load (
+    source: LoadSource,
+    options: ViewerLoadOptions = {}
+  ): Promise<Model> {
+    if (this.disposed) throw new Error('Viewer was disposed')
+
+    // Loads are aborted when the viewer is disposed
+    const controller = new AbortController()
+    const abort = () => controller.abort()
+    options.signal?.addEventListener('abort', abort)
+    if (options.signal?.aborted) abort()
+    this.loads.add(controller)
+
+    const name = getSourceName(source) ?? `model-${this.models.length}`
+    const matrix = options.matrix ?? this.getViewMatrix()
+    let model: Model | undefined
+
+    // Models share their origin so that they stay aligned, even when loaded together.
+    // Until a VIM model is built the origin is the one this load finds, if any.
+    const previousOrigin = this.origin
+    let resolveOrigin: (origin: number[] | undefined) => void
+    const origin = new Promise<number[] | undefined>((resolve) => {
+      resolveOrigin = resolve
+    })
+    this.origin = previousOrigin
+      ? previousOrigin.then((previous) => previous ?? origin)
+      : origin
+
+    try {
+      const result = await loadAny(source, {
+        ...options,
+        origin: options.origin ?? previousOrigin,
+        signal: controller.signal,
+        onProgress: (progress) => {
+          options.onProgress?.(progress)
+          this.onLoadProgress.dispatch({ source: name, progress })
+        },
+        onGeometryLoaded: (vim) => {
+          resolveOrigin(vim.origin.toArray())
+          model = new Model(name, vim, matrix)
+          this.onVimGeometryReady(model)
+          options.onGeometryLoaded?.(vim)
+        }
       })
-    } else if (result instanceof THREE.BufferGeometry) {
-      result.computeVertexNormals()
-      this.render.addToModel([new THREE.Mesh(result)])
-    } else if (
-      result instanceof THREE.Group ||
-      result instanceof THREE.Object3D
-    ) {
-      this.render.addToModel([result])
+
+      if (model) {
+        this.onVimBimReady(model)
+      } else {
+        // Parsers of other formats can't be aborted, drop the result instead
+        if (controller.signal.aborted) {
+          new Model(name, result, matrix).dispose()
+          throw new LoadAbortedError()
+        }
+        model = new Model(name, result, matrix)
+        this.loadInScene(model)
+      }
+      this.onModelLoaded.dispatch(model)
+      return model
+    } catch (error) {
+      // Remove geometry already displayed when loading failed on BIM data
+      if (model) this.unloadModel(model)
+      if (!(error instanceof LoadAbortedError)) {
+        this.onError.dispatch({ source: name, error: error as Error })
+      }
+      throw error
+    } finally {
+      // Failed loads and other formats leave the origin to the next model
+      resolveOrigin(undefined)
+      options.signal?.removeEventListener('abort', abort)
+      this.loads.delete(controller)
+      this.clearUnusedOrigin()
+    }
+  }
+
+  /**
+   * Removes all models from the scene and releases their resources.
+   */
+  unloadAllModels () {
+    this.models.slice().forEach((m) => this.unloadModel(m))
+  }
+
+  /**
+   * Stops rendering, aborts pending loads, and releases all resources, DOM elements and listeners.
+   * The viewer can't be used after this.
+   */
+  dispose () {
+    if (this.disposed) return
+    this.disposed = true
+
+    if (this.animationFrame !== undefined) {
+      cancelAnimationFrame(this.animationFrame)
+    }
+    this.loads.forEach((c) => c.abort())
+    this.loads.clear()
+
+    this.controls.unregister()
+    this.selection.reset()
+    this.unloadAllModels()
+
+    this.onModelLoaded.clear()
+    this.onSelectionChanged.clear()
+    this.onHover.clear()
+    this.onCameraMoved.clear()
+    this.onLoadProgress.clear()
+    this.onError.clear()
+    this.onMeasure.clear()
+
+    this.gui?.destroy()
+    this.gui = undefined
+    this.stats?.dom.remove()
+    this.stats = undefined
+    this.inspector?.dispose()
+    this.inspector = undefined
+    this.modelTree?.dispose()
+    this.modelTree = undefined
+    this.htmlDocument.dispose()
+
+    this.environment.getElements().forEach((e) => this.render.scene.remove(e))
+    this.environment.dispose()
+    this.render.scene.remove(this.sectionBox.object)
+    this.sectionBox.dispose()
+    this.render.scene.remove(this.measureTool.object)
+    this.measureTool.dispose()
+    this.render.dispose()
+  }
+
+  /**
+   * Removes a model from the scene and releases its geometries and materials.
+   */
+  unloadModel (model: Model) {
+    const index = this.models.indexOf(model)
+    if (index < 0) return
+    this.models.splice(index, 1)
+
+    if (this.selection.getModels().includes(model)) {
+      this.selection.removeModel(model)
+      this.onSelectionChanged.dispatch(this.getSelectedNodes())
     }
+    if (this.hovered?.model === model) this.hover(undefined)
+    this.render.removeModel(model)
+    this.render.updateBoundingSphere(this.models)
+    this.modelTree?.setModels(this.models)
+    this.clearUnusedOrigin()
+    model.dispose()
+  }
+
+  // The next VIM model finds a new origin once no model uses it
+  private clearUnusedOrigin () {
+    if (this.loads.size || this.models.some((m) => m.vimScene)) return
+    this.origin = undefined
+  }
+
+  /**
+   * Sets the transform of given model.
+   */
+  setModelMatrix (model: Model, matrix: THREE.Matrix4) {
+    model.setMatrix(matrix)
+    this.render.updateBoundingSphere(this.models)
+    this.selection.refresh()
+  }
 
-    if (!this.render.boundingSphere) {
-      this.render.computeBoundingSphere(this.getViewMatrix())
+  // Returns the model given mesh belongs to
+  getModelFromMesh (mesh: THREE.Object3D): Model | undefined {
+    return this.models.find((m) => m.contains(mesh))
+  }
+
+  loadInScene (model: Model) {
+    if (model.vimScene) {
+      new Set(model.meshes.map((m) => m.material as THREE.Material)).forEach(
+        (material) => patchVimMaterial(material, this.materialUniforms)
+      )
     }
+    model.object.traverse((obj) => {
+      if (!(obj instanceof THREE.Mesh)) return
+      const materials = Array.isArray(obj.material)
+        ? obj.material
+        : [obj.material]
+      materials.forEach((m) => (m.clippingPlanes = this.clippingPlanes))
+    })
+    this.models.push(model)
+    this.render.addModel(model)
+    this.render.updateBoundingSphere(this.models)
 
     this.focusModel()
     this.ApplySettings()
   }
 
-  onVimLoaded (vim: VimScene) {
-    this.vimScene = vim
-    console.log('Adding models to scene')
-    this.render.addToModel(vim.geometry.meshes)
-    console.log('Adding environement to scene')
-    this.render.addToScene(this.environment.getElements())
-
-    const sphere = vim.geometry.boundingSphere.clone()
-    sphere.applyMatrix4(this.getViewMatrix())
-    this.render.boundingSphere = sphere
-    this.render.updateModel(this.getViewMatrix())
+  // Called as soon as the geometry is built, bim data might still be loading
+  onVimGeometryReady (model: Model) {
+    console.log('Adding model to scene')
+    this.loadInScene(model)
 
-    console.log('Everything ready')
+    console.log('Geometry ready')
     console.time('FirstRender')
     this.render.render()
     console.timeEnd('FirstRender')
   }
 
+  // Called once entity tables and strings are loaded
+  onVimBimReady (model: Model) {
+    console.log(
+      `Everything ready: ${model.vimScene!.elementToNodes.size} elements`
+    )
+    // Elements selected while loading can now be inspected
+    this.refreshInspector()
+    this.modelTree?.setModels(this.models)
+    // Measurements taken while loading can now show the unit of the VIM
+    this.measureTool.refreshAll()
+  }
+
   // Calls render, and asks the framework to prepare the next frame
   animate () {
-    requestAnimationFrame(() => this.animate())
+    this.animationFrame = requestAnimationFrame(() => this.animate())
 
     // Camera
     const timeDelta = this.render.clock.getDelta()
@@ -140,6 +427,14 @@ export class Viewer {
     if (this.settings.autoResize) this.render.fitToCanvas()
 
     this.render.render()
+    this.measureTool.update(this.render.camera)
+
+    // Camera matrix is up to date after render
+    const camera = this.render.camera
+    if (!this.cameraMatrix.equals(camera.matrixWorld)) {
+      this.cameraMatrix.copy(camera.matrixWorld)
+      this.onCameraMoved.dispatch(camera)
+    }
 
     // Stats
     if (this.stats) {
@@ -147,90 +442,494 @@ export class Viewer {
     }
   }
 
-  // TODO Not create this everytime, Not apply this every time either.
+  // Default transform of new models, from the object settings
   getViewMatrix () {
-    const pos = this.settings.object.position
+    const pos = toVec(this.settings.object.position)
     const rot = toQuaternion(this.settings.object.rotation)
     const scl = scalarToVec(0.1)
     const matrix = new THREE.Matrix4().compose(pos, rot, scl)
     return matrix
   }
 
-  highlight (geometry: THREE.BufferGeometry): Function {
-    const wireframe = new THREE.WireframeGeometry(geometry)
-    const material = new THREE.LineBasicMaterial({
-      depthTest: false,
-      opacity: 0.5,
-      color: new THREE.Color(0x0000ff),
-      transparent: true
-    })
-    const line = new THREE.LineSegments(wireframe, material)
-
-    this.render.addToScene([line])
-
-    // returns disposer
-    return () => {
-      this.render.scene.remove(line)
-      wireframe.dispose()
-      material.dispose()
-    }
-  }
-
   createWorldGeometry (mesh: THREE.Mesh, index: number): THREE.BufferGeometry {
     const geometry = mesh.geometry.clone()
 
     let matrix = new THREE.Matrix4()
     if (mesh instanceof THREE.InstancedMesh) mesh.getMatrixAt(index, matrix)
-    else matrix.copy(mesh.matrix)
-    matrix = this.getViewMatrix().multiply(matrix)
+    matrix = matrix.premultiply(mesh.matrixWorld)
     geometry.applyMatrix4(matrix)
 
     return geometry
   }
 
-  createBufferGeometryFromNodeId (nodeIndex: number): THREE.BufferGeometry {
-    // TODO not create a full GeometryBuilder
-    const builder = new BufferGeometryBuilder(this.vimScene.vim.g3d)
+  createBufferGeometryFromNodeId (
+    model: Model,
+    nodeIndex: number
+  ): THREE.BufferGeometry | null {
+    const builder = model.vimScene!.geometryBuilder
     const geometry = builder.createBufferGeometryFromInstanceIndex(nodeIndex)
-    const matrix = this.getViewMatrix()
-    geometry.applyMatrix4(matrix)
+    geometry?.applyMatrix4(model.matrix)
     return geometry
   }
 
-  selectByElementId (elementId: number) {
-    if (!this.vimScene) return
-    const meshes = this.vimScene.getMeshesFromElement(elementId)
-    if (meshes) this.select(meshes[0][0], meshes[0][1])
-    else console.log(`Could not find mesh for elemetId ${elementId}`)
+  /**
+   * Selects all nodes of given element.
+   * Looks in given model, or in the first VIM model by default.
+   */
+  selectByElementId (
+    elementId: number,
+    model: Model | undefined = this.models.find((m) => m.vimScene),
+    mode: SelectionMode = 'replace'
+  ) {
+    if (!model?.vimScene) return
+    const nodes = model.vimScene.getNodeIndicesFromElement(elementId)
+    if (nodes) this.selectNodes(model, nodes, mode)
+    else console.log(`Could not find nodes for elemetId ${elementId}`)
+  }
+
+  /**
+   * Returns the elements matching all filters of a query, with their nodes.
+   * Element ids can be given to hide, isolate or setElementsColor, and nodes to selectNodes.
+   * Looks in given model, or in the first VIM model by default.
+   * @example viewer.query({ category: 'Doors', parameter: { name: 'Fire Rating', equals: '60' } })
+   */
+  query (
+    query: ElementQuery,
+    model: Model | undefined = this.models.find((m) => m.vimScene)
+  ): ElementQueryResult {
+    const vimScene = model?.vimScene
+    if (!vimScene) return { model, elementIds: [], nodeIndices: [] }
+
+    const elementIds = queryElements(vimScene, query)
+    const nodeIndices = elementIds.flatMap(
+      (id) => vimScene.getNodeIndicesFromElement(id) ?? []
+    )
+    return { model, elementIds, nodeIndices }
   }
 
-  select (mesh: THREE.Mesh, index: number) {
-    if (!this.vimScene) return
-    if (!mesh) throw new Error('Invalid null mesh')
-    if (index < 0) throw new Error('invalid negative index')
+  // Returns the model and node rendered by given mesh instance, undefined if it isn't part of a VIM model
+  getNode (mesh: THREE.Mesh, index: number): [Model, number] | undefined {
+    const model = this.getModelFromMesh(mesh)
+    const vimScene = model?.vimScene
+    if (!vimScene) return
 
-    let nodeIndex: number
-    if (mesh.userData.merged) {
-      nodeIndex = index
-    } else {
-      nodeIndex = this.vimScene.getNodeIndexFromMesh(mesh, index)
+    const nodeIndex = mesh.userData.merged
+      ? index
+      : vimScene.getNodeIndexFromMesh(mesh, index)
+    if (nodeIndex === undefined) return
+    return [model, nodeIndex]
+  }
+
+  /**
+   * Returns given mesh with the picked instance index, or the picked node index for merged meshes.
+   * Merged nodes are found from a vertex of the picked triangle.
+   */
+  getMeshIndex (
+    mesh: THREE.Mesh,
+    instance: number,
+    vertex: number
+  ): [THREE.Mesh, number] | undefined {
+    if (!mesh.userData.merged) return [mesh, instance]
+    const geometry = this.getModelFromMesh(mesh)?.vimScene?.geometry
+    const node = geometry?.getMergedNodeFromVertex(mesh, vertex)
+    return node === undefined ? undefined : [mesh, node]
+  }
+
+  // True if picking is done with the id buffer rather than by raycasting
+  useGpuPicking (): boolean {
+    return this.settings.gpuPicking && this.render.picker.isSupported()
+  }
+
+  getNodeInfo (model: Model, nodeIndex: number): NodeInfo {
+    return {
+      model,
+      nodeIndex,
+      elementId: model.vimScene?.getElementIdFromNodeIndex(nodeIndex),
+      elementName: model.vimScene?.getElementNameFromNodeIndex(nodeIndex)
     }
+  }
 
-    if (nodeIndex === undefined) {
+  getSelectedNodes (): NodeInfo[] {
+    const result: NodeInfo[] = []
+    this.selection.getModels().forEach((model) => {
+      this.selection
+        .getNodeIndices(model)
+        .forEach((node) => result.push(this.getNodeInfo(model, node)))
+    })
+    return result
+  }
+
+  select (mesh: THREE.Mesh, index: number, mode: SelectionMode = 'replace') {
+    if (!mesh) throw new Error('Invalid null mesh')
+    if (index < 0) throw new Error('invalid negative index')
+
+    const node = this.getNode(mesh, index)
+    if (!node) {
       console.log('Could not find node for given mesh')
       return
     }
 
-    this.selection.select(nodeIndex)
+    const [model, nodeIndex] = node
+    const info = this.getNodeInfo(model, nodeIndex)
+    console.log(
+      `Selected Element: ${info.elementId} - ${info.elementName} in model ${model.name}`
+    )
+    this.selectNodes(model, [nodeIndex], mode)
+  }
+
+  selectNodes (
+    model: Model,
+    nodeIndices: number[],
+    mode: SelectionMode = 'replace'
+  ) {
+    this.selection.update(model, nodeIndices, mode)
+    this.onSelectionChanged.dispatch(this.getSelectedNodes())
+  }
+
+  /**
+   * Selects the nodes in a rectangle between two points in window pixels.
+   * Dragging left to right selects nodes fully inside, right to left selects nodes crossing it.
+   * With GPU picking, crossing only selects nodes with visible pixels in the rectangle.
+   */
+  selectBox (
+    start: THREE.Vector2,
+    end: THREE.Vector2,
+    mode: SelectionMode = 'replace'
+  ) {
+    const toNdc = (p: THREE.Vector2) =>
+      new THREE.Vector2(
+        (p.x / window.innerWidth) * 2 - 1,
+        -(p.y / window.innerHeight) * 2 + 1
+      )
+    const crossing = end.x < start.x
+    const nodes =
+      crossing && this.useGpuPicking()
+        ? this.getPickedNodes(new THREE.Box2().setFromPoints([start, end]))
+        : this.getNodesInNdcRect(
+          new THREE.Box2().setFromPoints([toNdc(start), toNdc(end)]),
+          crossing
+        )
+
+    if (mode === 'replace') this.selection.reset()
+    nodes.forEach((indices, model) =>
+      this.selection.update(model, indices, mode === 'replace' ? 'add' : mode)
+    )
+    this.onSelectionChanged.dispatch(this.getSelectedNodes())
+  }
+
+  /**
+   * Returns the nodes in view.
+   * Occluded nodes are left out with GPU picking, otherwise all nodes in the view frustum are returned.
+   */
+  getVisibleNodes (): NodeInfo[] {
+    const nodes = this.useGpuPicking()
+      ? this.getPickedNodes(
+        new THREE.Box2(
+          new THREE.Vector2(0, 0),
+          new THREE.Vector2(window.innerWidth, window.innerHeight)
+        )
+      )
+      : this.getNodesInNdcRect(
+        new THREE.Box2(new THREE.Vector2(-1, -1), new THREE.Vector2(1, 1)),
+        true
+      )
+
+    const result: NodeInfo[] = []
+    nodes.forEach((indices, model) =>
+      indices.forEach((node) => result.push(this.getNodeInfo(model, node)))
+    )
+    return result
+  }
+
+  // Nodes of all models whose bounding box is in a rectangle in normalized device coordinates
+  private getNodesInNdcRect (rect: THREE.Box2, crossing: boolean) {
+    const result = new Map<Model, number[]>()
+    this.models.forEach((model) => {
+      const nodes = getNodesInRect(model, this.render.camera, rect, crossing)
+      if (nodes.length) result.set(model, nodes)
+    })
+    return result
+  }
+
+  // Nodes of all models drawn in a rectangle in window pixels, according to the id buffer
+  private getPickedNodes (rect: THREE.Box2) {
+    const picked = new Map<Model, Set<number>>()
+    this.render.gpuPick(rect).forEach((pick) => {
+      const meshIndex = this.getMeshIndex(pick.mesh, pick.instance, pick.vertex)
+      const node = meshIndex && this.getNode(...meshIndex)
+      if (!node) return
+      const [model, nodeIndex] = node
+      if (!picked.has(model)) picked.set(model, new Set())
+      picked.get(model).add(nodeIndex)
+    })
+
+    const result = new Map<Model, number[]>()
+    picked.forEach((nodes, model) => result.set(model, Array.from(nodes)))
+    return result
+  }
+
+  /**
+   * Hides the nodes of given elements.
+   * Looks in given model, or in the first VIM model by default.
+   */
+  hide (
+    elementIds: number[],
+    model: Model | undefined = this.models.find((m) => m.vimScene)
+  ) {
+    this.setElementsVisibility(model, elementIds, 'hidden')
+  }
 
-    const id = this.vimScene.getElementIdFromNodeIndex(nodeIndex)
-    const name = this.vimScene.getElementNameFromNodeIndex(nodeIndex)
-    console.log(`Selected Element: ${id} - ${name}`)
+  /**
+   * Shows the nodes of given elements, whether they were hidden or ghosted.
+   * Looks in given model, or in the first VIM model by default.
+   */
+  show (
+    elementIds: number[],
+    model: Model | undefined = this.models.find((m) => m.vimScene)
+  ) {
+    this.setElementsVisibility(model, elementIds, 'visible')
+  }
+
+  /**
+   * Shows given elements and hides everything else in the model.
+   * Looks in given model, or in the first VIM model by default.
+   */
+  isolate (
+    elementIds: number[],
+    model: Model | undefined = this.models.find((m) => m.vimScene)
+  ) {
+    this.setAllVisibility(model, 'hidden')
+    this.setElementsVisibility(model, elementIds, 'visible')
+  }
+
+  /**
+   * Shows given elements and draws everything else in the model see-through.
+   * Ghosted nodes can't be picked.
+   * Looks in given model, or in the first VIM model by default.
+   */
+  ghost (
+    elementIds: number[],
+    model: Model | undefined = this.models.find((m) => m.vimScene)
+  ) {
+    this.setAllVisibility(model, 'ghosted')
+    this.setElementsVisibility(model, elementIds, 'visible')
+  }
+
+  // Shows all nodes of given model, or of all models by default
+  showAll (model?: Model) {
+    const models = model ? [model] : this.models
+    models.forEach((m) => this.setAllVisibility(m, 'visible'))
+  }
+
+  /**
+   * Overrides the color of the nodes of given elements, undefined restores their original color.
+   * Looks in given model, or in the first VIM model by default.
+   */
+  setElementsColor (
+    elementIds: number[],
+    color: THREE.Color | undefined,
+    model: Model | undefined = this.models.find((m) => m.vimScene)
+  ) {
+    const vimScene = model?.vimScene
+    if (!vimScene) return
+    elementIds.forEach((id) =>
+      vimScene
+        .getNodeIndicesFromElement(id)
+        ?.forEach((node) => vimScene.setNodeColor(node, color))
+    )
+  }
+
+  // Overrides the color of given nodes, undefined restores their original color
+  setNodesColor (
+    model: Model,
+    nodeIndices: number[],
+    color: THREE.Color | undefined
+  ) {
+    nodeIndices.forEach((node) => model.vimScene?.setNodeColor(node, color))
+  }
+
+  // Restores the original colors of given model, or of all models by default
+  clearColors (model?: Model) {
+    const models = model ? [model] : this.models
+    models.forEach((m) => m.vimScene?.clearNodeColors())
+  }
+
+  private setElementsVisibility (
+    model: Model | undefined,
+    elementIds: number[],
+    visibility: NodeVisibility
+  ) {
+    const vimScene = model?.vimScene
+    if (!vimScene) return
+    elementIds.forEach((id) =>
+      vimScene
+        .getNodeIndicesFromElement(id)
+        ?.forEach((node) => vimScene.setNodeVisibility(node, visibility))
+    )
+    this.onVisibilityChanged(model)
+  }
+
+  private setAllVisibility (
+    model: Model | undefined,
+    visibility: NodeVisibility
+  ) {
+    const vimScene = model?.vimScene
+    if (!vimScene) return
+    for (let node = 0; node < vimScene.getNodeCount(); node++) {
+      vimScene.setNodeVisibility(node, visibility)
+    }
+    this.onVisibilityChanged(model)
+  }
+
+  private onVisibilityChanged (model: Model) {
+    model.showGhosts(model.vimScene.hasGhostedNodes(), () => {
+      const material = createGhostMaterial(this.materialUniforms)
+      material.clippingPlanes = this.clippingPlanes
+      return material
+    })
+    // The hovered node might not be visible anymore
+    if (this.hovered?.model === model) this.hover(undefined)
+    this.modelTree?.refreshVisibility(model)
+  }
+
+  /**
+   * Starts taking measurements of given mode, clicks then add points rather than select.
+   * Distances and angles complete by themselves, polylines and areas with finishMeasure.
+   * Completed measurements are raised by onMeasure.
+   */
+  startMeasure (mode: MeasureMode) {
+    this.measureTool.start(mode)
+  }
+
+  // Completes the current polyline or area
+  finishMeasure () {
+    this.measureTool.finish()
+  }
+
+  // Stops measuring, the measurement in progress is dropped
+  stopMeasure () {
+    this.measureTool.stop()
+  }
+
+  isMeasuring (): boolean {
+    return this.measureTool.getMode() !== undefined
+  }
+
+  // Removes all measurements from the view
+  clearMeasurements () {
+    this.measureTool.clear()
+  }
+
+  /**
+   * Adds the point of a raycast hit to the current measurement.
+   * It snaps to the vertices and edges of the hit triangle when close to them.
+   */
+  addMeasurePoint (hit: THREE.Intersection<THREE.Object3D>) {
+    const point = snapPoint(hit, hit.distance * measureSnap)
+    this.measureTool.addPoint(point, this.getModelFromMesh(hit.object))
+  }
+
+  /**
+   * Enables the section box around given box in world space, only what is inside is drawn.
+   * Its faces can then be dragged with the mouse.
+   */
+  setSectionBox (box: THREE.Box3) {
+    this.sectionBox.setBox(box)
+    this.updateClippingPlanes()
+  }
+
+  // Returns the box of the section box in world space, undefined when disabled
+  getSectionBox (): THREE.Box3 | undefined {
+    return this.sectionBox.enabled ? this.sectionBox.getBox() : undefined
+  }
+
+  clearSectionBox () {
+    this.sectionBox.disable()
+    this.updateClippingPlanes()
+  }
+
+  /**
+   * Fits the section box around the selection, with some margin.
+   * Does nothing without a selection.
+   */
+  sectionSelection () {
+    const box = this.selection.boundingBox
+    if (!box) return
+    const margin = box.getSize(new THREE.Vector3()).length() * 0.05
+    this.setSectionBox(box.clone().expandByScalar(margin))
+  }
+
+  /**
+   * Clips all models with a plane in world space, the side its normal points to is kept.
+   * The plane can be changed afterwards.
+   */
+  addClippingPlane (plane: THREE.Plane) {
+    if (this.planes.includes(plane)) return
+    this.planes.push(plane)
+    this.updateClippingPlanes()
+  }
+
+  removeClippingPlane (plane: THREE.Plane) {
+    const index = this.planes.indexOf(plane)
+    if (index < 0) return
+    this.planes.splice(index, 1)
+    this.updateClippingPlanes()
+  }
+
+  clearClippingPlanes () {
+    this.planes = []
+    this.updateClippingPlanes()
+  }
+
+  getClippingPlanes (): THREE.Plane[] {
+    return this.planes.slice()
+  }
+
+  // Materials keep a reference to the shared array, it is updated in place
+  private updateClippingPlanes () {
+    this.clippingPlanes.length = 0
+    if (this.sectionBox.enabled) {
+      this.clippingPlanes.push(...this.sectionBox.planes)
+    }
+    this.clippingPlanes.push(...this.planes)
+    // The hovered node might be clipped
+    this.hover(undefined)
   }
 
   clearSelection () {
+    const hadSelection = this.selection.hasSelection()
     this.selection.reset()
     console.log('Cleared Selection')
+    if (hadSelection) this.onSelectionChanged.dispatch([])
+  }
+
+  // Called when the mouse moves over given mesh instance, or over nothing
+  hover (mesh: THREE.Mesh | undefined, index?: number) {
+    const picked = mesh ? this.getNode(mesh, index!) : undefined
+    const node = picked ? this.getNodeInfo(...picked) : undefined
+    const previous = this.hovered
+    if (
+      node?.model === previous?.model &&
+      node?.nodeIndex === previous?.nodeIndex
+    ) {
+      return
+    }
+    if (previous) this.tintHover(previous, false)
+    if (node && this.settings.hover.enabled) this.tintHover(node, true)
+    this.hovered = node
+    this.onHover.dispatch(node)
+  }
+
+  // Tints all nodes of the element of given node
+  private tintHover (node: NodeInfo, hovered: boolean) {
+    const vimScene = node.model.vimScene
+    if (!vimScene) return
+    const nodes =
+      node.elementId !== undefined
+        ? vimScene.getNodeIndicesFromElement(node.elementId)
+        : undefined
+    const tinted = nodes ?? [node.nodeIndex]
+    tinted.forEach((n) => vimScene.setNodeHover(n, hovered))
   }
 
   focusSelection () {
@@ -245,19 +944,194 @@ export class Viewer {
     this.cameraController.frameScene(this.render.boundingSphere)
   }
 
-  // Called every frame in case settings are updated
+  private onFileDropped = (file: File) => {
+    this.load(file).catch((error) =>
+      console.error(`Could not load ${file.name}`, error)
+    )
+  }
+
+  /**
+   * Merges given options in the current settings.
+   * Only the subsystems whose settings changed are updated.
+   * Throws an error naming the invalid setting, in which case nothing is changed.
+   */
+  updateSettings (options: ViewerOptions) {
+    const previous = this.settings
+    this.settings = mergeSettings(previous, options)
+    const changed = (...keys: (keyof ViewerSettings)[]) =>
+      keys.some(
+        (k) => JSON.stringify(previous[k]) !== JSON.stringify(this.settings[k])
+      )
+
+    if (changed('showGui')) this.updateGui()
+    if (changed('showStats')) this.updateStats()
+    if (changed('showInspector')) this.updateInspector()
+    if (changed('showModelTree')) this.updateModelTree()
+    if (changed('dropZone')) this.updateDropZone()
+    if (changed('background')) this.updateBackground()
+    if (changed('highlight', 'hover', 'ghost')) this.updateVimMaterials()
+    if (changed('showTransparent')) this.updateTransparent()
+    if (changed('measure')) this.updateMeasureTool()
+    if (changed('plane', 'skylight', 'sunLight')) {
+      this.environment.applySettings(this.settings)
+    }
+    if (changed('camera', 'mouseOrbit')) {
+      this.cameraController.applySettings(this.settings)
+    }
+  }
+
+  // Applies all settings
   ApplySettings () {
-    this.render.scene.background = toColor(this.settings.background.color)
+    this.updateDropZone()
+    this.updateBackground()
+    this.updateVimMaterials()
+    this.updateTransparent()
+    this.updateMeasureTool()
     this.environment.applySettings(this.settings)
     this.cameraController.applySettings(this.settings)
   }
+
+  private updateDropZone () {
+    this.htmlDocument.setDropZone(
+      this.settings.dropZone ? this.onFileDropped : undefined
+    )
+  }
+
+  private updateBackground () {
+    this.render.scene.background = toColor(this.settings.background.color)
+  }
+
+  private updateVimMaterials () {
+    const uniforms = this.materialUniforms
+    uniforms.highlightColor.value = toColor(this.settings.highlight.color)
+    uniforms.highlightOpacity.value = this.settings.highlight.opacity
+    uniforms.hoverColor.value = toColor(this.settings.hover.color)
+    uniforms.hoverOpacity.value = this.settings.hover.enabled
+      ? this.settings.hover.opacity
+      : 0
+    uniforms.ghostColor.value = toColor(this.settings.ghost.color)
+    uniforms.ghostOpacity.value = this.settings.ghost.opacity
+  }
+
+  // Shows or hides the transparent meshes of vim models
+  private updateTransparent () {
+    this.models.forEach((model) =>
+      model.meshes.forEach((mesh) => {
+        if (mesh.userData.transparent) {
+          mesh.visible = this.settings.showTransparent
+        }
+      })
+    )
+  }
+
+  private updateMeasureTool () {
+    const tool = this.measureTool
+    tool.setColor(toColor(this.settings.measure.color))
+    tool.unit = this.settings.measure.unit
+    tool.precision = this.settings.measure.precision
+    tool.refreshAll()
+  }
+
+  // Creates or removes the DAT.gui controller
+  private updateGui () {
+    this.gui?.destroy()
+    this.gui = undefined
+    if (!this.settings.showGui) return
+
+    this.gui = ViewerGui.bind(
+      this.settings as unknown as Record<string, unknown>,
+      (settings) => {
+        try {
+          this.updateSettings(settings as ViewerOptions)
+        } catch (error) {
+          console.error(error)
+        }
+      }
+    )
+  }
+
+  // Creates or removes the stats display
+  private updateStats () {
+    this.stats?.dom.remove()
+    this.stats = undefined
+    if (!this.settings.showStats) return
+
+    this.stats = new Stats()
+    this.stats.dom.style.top = '84px'
+    this.stats.dom.style.left = '16px'
+    document.body.appendChild(this.stats.dom)
+  }
+
+  // Creates or removes the inspector panel
+  private updateInspector () {
+    this.inspector?.dispose()
+    this.inspector = undefined
+    if (!this.settings.showInspector) return
+
+    this.inspector = new Inspector()
+    this.refreshInspector()
+  }
+
+  // Shows the properties of the first selected element in the inspector
+  private refreshInspector () {
+    if (!this.inspector) return
+    const nodes = this.getSelectedNodes().filter(
+      (n) => n.elementId !== undefined
+    )
+    const first = nodes[0]
+    const properties = first?.model.vimScene?.getElementProperties(
+      first.elementId
+    )
+    const count = new Set(
+      nodes.map((n) => `${this.models.indexOf(n.model)}:${n.elementId}`)
+    ).size
+    this.inspector.show(properties, count)
+  }
+
+  // Creates or removes the model tree panel
+  private updateModelTree () {
+    this.modelTree?.dispose()
+    this.modelTree = undefined
+    if (!this.settings.showModelTree) return
+
+    this.modelTree = new ModelTreeView({
+      select: (model, elementIds) => {
+        const nodes = elementIds.flatMap(
+          (id) => model.vimScene?.getNodeIndicesFromElement(id) ?? []
+        )
+        this.selectNodes(model, nodes)
+        this.focusSelection()
+      },
+      setVisible: (model, elementIds, visible) =>
+        visible ? this.show(elementIds, model) : this.hide(elementIds, model),
+      isVisible: (model, elementId) =>
+        !model.vimScene
+          ?.getNodeIndicesFromElement(elementId)
+          ?.some((n) => model.vimScene.getNodeVisibility(n) === 'hidden')
+    })
+    this.modelTree.setModels(this.models)
+    this.revealInModelTree(this.getSelectedNodes())
+  }
+
+  // Expands the model tree to the selected elements of the first selected model
+  private revealInModelTree (nodes: NodeInfo[]) {
+    if (!this.modelTree) return
+    const model = nodes[0]?.model
+    const elementIds = new Set<number>()
+    nodes.forEach((n) => {
+      if (n.model === model && n.elementId !== undefined) {
+        elementIds.add(n.elementId)
+      }
+    })
+    this.modelTree.reveal(model, Array.from(elementIds))
+  }
 }
 
 // Helpers
 
 export function updateMaterial (
   targetMaterial: THREE.MeshPhongMaterial,
-  settings: any
+  settings: MaterialSettings
 ) {
   if ('color' in settings) targetMaterial.color = toColor(settings.color)
   if ('flatShading' in settings) {
@@ -273,23 +1147,24 @@ export function updateMaterial (
   if ('shininess' in settings) targetMaterial.shininess = settings.shininess
 }
 
-function isColor (obj: any): boolean {
-  return typeof obj === 'object' && 'r' in obj && 'g' in obj && 'b' in obj
-}
-
-function toColor (c: any): THREE.Color {
-  if (!isColor(c)) {
-    throw new Error('Not a color')
+function toColor (c: ColorRGB): THREE.Color {
+  if (!isColorRGB(c)) {
+    throw new Error(
+      `Not a color: expected { r, g, b } with values in [0, 255], got ${JSON.stringify(
+        c
+      )}`
+    )
   }
   return new THREE.Color(c.r / 255, c.g / 255, c.b / 255)
 }
 
-function isVector (obj: any): boolean {
-  return typeof obj === 'object' && 'x' in obj && 'y' in obj && 'z' in obj
-}
-export function toVec (obj: any): THREE.Vector3 {
-  if (!isVector(obj)) {
-    throw new Error('Not a vector')
+export function toVec (obj: Vector3): THREE.Vector3 {
+  if (!isVector3(obj)) {
+    throw new Error(
+      `Not a vector: expected { x, y, z } of finite numbers, got ${JSON.stringify(
+        obj
+      )}`
+    )
   }
   return new THREE.Vector3(obj.x, obj.y, obj.z)
 }
@@ -298,7 +1173,7 @@ function scalarToVec (x: number): THREE.Vector3 {
   return new THREE.Vector3(x, x, x)
 }
 
-function toEuler (rot: THREE.Vector3): THREE.Euler {
+function toEuler (rot: Vector3): THREE.Euler {
   return new THREE.Euler(
     (rot.x * Math.PI) / 180,
     (rot.y * Math.PI) / 180,
@@ -306,7 +1181,7 @@ function toEuler (rot: THREE.Vector3): THREE.Euler {
   )
 }
 
-function toQuaternion (rot: THREE.Vector3): THREE.Quaternion {
+function toQuaternion (rot: Vector3): THREE.Quaternion {
   const q = new THREE.Quaternion()
   q.setFromEuler(toEuler(rot))
   return q
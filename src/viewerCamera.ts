@@ -3,6 +3,7 @@
 */
 
 import * as THREE from 'three'
+import { ViewerSettings } from './viewerSettings'
 
 const direction = {
   forward: new THREE.Vector3(0, 0, -1),
@@ -17,7 +18,7 @@ class ViewerCamera {
   MinOrbitalDistance: number = 1.0
 
   camera: THREE.PerspectiveCamera
-  settings: any
+  settings: ViewerSettings
 
   Rotation: THREE.Vector2
   InputVelocity: THREE.Vector3
@@ -38,7 +39,7 @@ class ViewerCamera {
 
   VelocityBlendFactor: number = 0.0001
 
-  constructor (camera: THREE.PerspectiveCamera, settings: any) {
+  constructor (camera: THREE.PerspectiveCamera, settings: ViewerSettings) {
     this.camera = camera
     this.applySettings(settings)
 
@@ -92,13 +93,13 @@ class ViewerCamera {
     this.TargetOrbitalDistance = this.CurrentOrbitalDistance
   }
 
-  applySettings (newSettings: any) {
-    // TODO: camera updates aren't working
+  applySettings (newSettings: ViewerSettings) {
     this.MouseOrbit = newSettings.mouseOrbit
     this.camera.fov = newSettings.camera.fov
     this.camera.zoom = newSettings.camera.zoom
     this.camera.near = newSettings.camera.near
     this.camera.far = newSettings.camera.far
+    this.camera.updateProjectionMatrix()
     this.settings = newSettings
   }
 
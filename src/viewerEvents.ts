@@ -0,0 +1,65 @@
+/**
+ @author VIM / https://vimaec.com
+*/
+
+import { Model } from './model'
+import { LoadProgress } from './loadProgress'
+
+/**
+ * A typed event, handlers are called in subscription order.
+ */
+export class ViewerEvent<T> {
+  private handlers: ((args: T) => void)[] = []
+
+  // Returns a function which unsubscribes the handler
+  subscribe (handler: (args: T) => void): () => void {
+    this.handlers.push(handler)
+    return () => this.unsubscribe(handler)
+  }
+
+  unsubscribe (handler: (args: T) => void) {
+    const index = this.handlers.indexOf(handler)
+    if (index >= 0) this.handlers.splice(index, 1)
+  }
+
+  hasSubscribers (): boolean {
+    return this.handlers.length > 0
+  }
+
+  // A failing handler is logged and doesn't prevent others from being called
+  dispatch (args: T) {
+    this.handlers.slice().forEach((handler) => {
+      try {
+        handler(args)
+      } catch (error) {
+        console.error('Error in event handler', error)
+      }
+    })
+  }
+
+  clear () {
+    this.handlers = []
+  }
+}
+
+/**
+ * A node of a VIM model, with the element it belongs to when BIM data is loaded.
+ */
+export interface NodeInfo {
+  model: Model
+  nodeIndex: number
+  elementId: number | undefined
+  elementName: string | undefined
+}
+
+export interface LoadProgressEvent {
+  // Name of the loaded source
+  source: string
+  progress: LoadProgress
+}
+
+export interface ViewerErrorEvent {
+  // Name of the loaded source
+  source: string
+  error: Error
+}
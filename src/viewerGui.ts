@@ -141,11 +141,13 @@ type PropValueChanged = (pv: PropValue) => void
 type PropsValueChanged = (pv: PropListJson) => void
 
 const ViewerGui = {
-  gui: new GUI(),
+  // Creates a new DAT.gui controller bound to the settings, destroy it when done
   bind: function (
     settings: Record<string, unknown>,
     callback: PropsValueChanged
-  ) {
+  ): GUI {
+    const gui = new GUI()
+
     // Create a property descriptor
     const propDesc = objectToPropDesc(settings, {})
 
@@ -155,7 +157,8 @@ const ViewerGui = {
     props.fromJson(settings)
 
     // Bind the properties to the DAT.gui controller, returning the scene when it updates
-    bindControls(props, this.gui, () => callback(props.toJson))
+    bindControls(props, gui, () => callback(props.toJson))
+    return gui
 
     function objectToPropDesc (
       obj: Record<string, unknown>,
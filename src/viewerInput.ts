@@ -38,6 +38,7 @@ export class ViewerInput {
     this.reg(this.canvas, 'wheel', this.mouse.onMouseWheel)
     this.reg(this.canvas, 'mousemove', this.mouse.onMouseMove)
     this.reg(this.canvas, 'mouseup', this.mouse.onMouseUp)
+    this.reg(this.canvas, 'mouseleave', this.mouse.onMouseLeave)
 
     // touch
     this.reg(this.canvas, 'touchstart', this.touch.onTouchStart)
@@ -1,13 +1,12 @@
 import * as THREE from 'three'
 import { VIMLoader } from './VIMLoader'
+import { InlineWorker, WorkerLike } from './geometryWorker'
+import VimWorker from './vimWorker?worker&inline'
 
 // Other loaders
 import { TDSLoader } from 'three/examples/jsm/loaders/TDSLoader'
 import { FBXLoader } from 'three/examples/jsm/loaders/FBXLoader'
-import {
-  ColladaLoader,
-  Collada
-} from 'three/examples/jsm/loaders/ColladaLoader'
+import { ColladaLoader } from 'three/examples/jsm/loaders/ColladaLoader'
 import { GLTF, GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader'
 import { GCodeLoader } from 'three/examples/jsm/loaders/GCodeLoader'
 import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader'
@@ -15,16 +14,27 @@ import { PCDLoader } from 'three/examples/jsm/loaders/PCDLoader'
 import { PLYLoader } from 'three/examples/jsm/loaders/PLYLoader'
 import { STLLoader } from 'three/examples/jsm/loaders/STLLoader'
 import { VimScene } from './vim'
+import { RemoteBuffer } from './remoteBuffer'
+import { getSourceName, isBFast, LoadSource, readSource } from './loadSource'
+import { LoadError, UnsupportedFormatError, throwIfAborted } from './loadErrors'
+import { LoadProgress, ProgressReporter } from './loadProgress'
 
-// Material
-const defaultMaterial = new THREE.MeshPhongMaterial({
-  color: 0x999999,
-  vertexColors: true,
-  flatShading: true,
-  // TODO: experiment without being double-sided
-  side: THREE.DoubleSide,
-  shininess: 70
-})
+// Material, each vim gets its own so it can be disposed with the model
+function createDefaultMaterial () {
+  return new THREE.MeshPhongMaterial({
+    color: 0x999999,
+    vertexColors: true,
+    flatShading: true,
+    // TODO: experiment without being double-sided
+    side: THREE.DoubleSide,
+    shininess: 70
+  })
+}
+
+// Geometry is built in a web worker where available
+function createWorker (): WorkerLike {
+  return typeof Worker !== 'undefined' ? new VimWorker() : new InlineWorker()
+}
 
 function getExt (fileName: string): string {
   const indexOfQueryParams = fileName.lastIndexOf('?')
@@ -35,68 +45,127 @@ function getExt (fileName: string): string {
   return fileName.slice(extPos + 1).toLowerCase()
 }
 
-export const loadAny = function (
-  fileName: string,
-  onFileLoaded: (
-    result:
-      | VimScene
-      | THREE.Scene
-      | THREE.Group
-      | THREE.Object3D
-      | THREE.BufferGeometry
-  ) => void,
-  overrideFileExtension: string = null
-) {
-  const ext = overrideFileExtension ?? getExt(fileName)
+export type LoadedModel =
+  | VimScene
+  | THREE.Scene
+  | THREE.Group
+  | THREE.Object3D
+  | THREE.BufferGeometry
 
-  switch (ext) {
-    case '3ds': {
-      new TDSLoader().load(fileName, onFileLoaded)
-      return
-    }
-    case 'fbx': {
-      new FBXLoader().load(fileName, onFileLoaded)
-      return
-    }
-    case 'dae': {
-      new ColladaLoader().load(fileName, (result: Collada) => {
-        onFileLoaded(result.scene)
-      })
-      return
-    }
-    case 'gltf': {
-      new GLTFLoader().load(fileName, (result: GLTF) => {
-        onFileLoaded(result.scene)
-      })
-      return
-    }
-    case 'gcode': {
-      new GCodeLoader().load(fileName, onFileLoaded)
-      break
-    }
-    case 'obj': {
-      new OBJLoader().load(fileName, onFileLoaded)
-      break
-    }
-    case 'pcd': {
-      new PCDLoader().load(fileName, onFileLoaded)
-      break
-    }
-    case 'ply': {
-      new PLYLoader().load(fileName, onFileLoaded)
-      break
-    }
-    case 'stl': {
-      new STLLoader().load(fileName, onFileLoaded)
-      break
+export interface LoadOptions {
+  // Overrides the extension found in the file name
+  fileExtension?: string
+  signal?: AbortSignal
+  onProgress?: (progress: LoadProgress) => void
+  // VIM only, called once geometry is ready while BIM data is still loading
+  onGeometryLoaded?: (vim: VimScene) => void
+  // VIM only, subtracted from model space coordinates, found from the geometry when undefined
+  origin?: number[] | Promise<number[] | undefined>
+}
+
+/**
+ * Loads a model from a url, binary data, file or stream.
+ * VIM files are recognized from their content when the extension is unknown.
+ */
+export const loadAny = async function (
+  source: LoadSource,
+  options: LoadOptions = {}
+): Promise<LoadedModel> {
+  const signal = options.signal
+  const name = getSourceName(source) ?? ''
+  let ext = options.fileExtension ?? getExt(name)
+  const isKnown = () => ext === 'vim' || getParser(ext, '') !== undefined
+
+  const download = new ProgressReporter(options.onProgress)
+  let bytes: Uint8Array
+  if (typeof source === 'string') {
+    const remote = new RemoteBuffer(source, signal)
+    if (!isKnown() && isBFast(await remote.http(0, 8))) ext = 'vim'
+    if (ext === 'vim') {
+      return createVimLoader().load(remote, options)
     }
-    case 'vim': {
-      new VIMLoader(defaultMaterial).load(fileName, onFileLoaded)
-      break
+    if (!isKnown()) throw unsupported(ext, name)
+
+    remote.onProgress = (loaded, total) => download.update(loaded, total)
+    download.start('download')
+    bytes = await remote.all()
+  } else {
+    download.start('download')
+    bytes = await readSource(source, signal, (loaded, total) =>
+      download.update(loaded, total)
+    )
+    download.update(bytes.byteLength, bytes.byteLength)
+    if (!options.fileExtension && isBFast(bytes)) ext = 'vim'
+    if (ext === 'vim') {
+      download.end()
+      return createVimLoader().load(bytes, options)
     }
-    default:
-      throw new Error(
-        "Unrecognized file type extension '" + ext + "' for file " + fileName
-      )
+    if (!isKnown()) throw unsupported(ext, name)
+  }
+  download.end()
+  throwIfAborted(signal)
+
+  const buffer =
+    bytes.byteLength === bytes.buffer.byteLength
+      ? bytes.buffer
+      : bytes.slice().buffer
+  const path =
+    typeof source === 'string' ? THREE.LoaderUtils.extractUrlBase(source) : ''
+  try {
+    return await getParser(ext, path)(buffer)
+  } catch (error) {
+    throw new LoadError(
+      `Could not parse ${name}: ${(error as Error).message}`,
+      error
+    )
+  }
+}
+
+function createVimLoader () {
+  return new VIMLoader(createDefaultMaterial(), createWorker)
+}
+
+function unsupported (ext: string, name: string) {
+  return new UnsupportedFormatError(
+    "Unrecognized file type extension '" + ext + "' for file " + name
+  )
+}
+
+// Returns the three.js parser for given extension, path is used to resolve external resources.
+function getParser (
+  ext: string,
+  path: string
+): ((data: ArrayBuffer) => LoadedModel | Promise<LoadedModel>) | undefined {
+  switch (ext) {
+    case '3ds':
+      return (data) => new TDSLoader().parse(data, path)
+    case 'fbx':
+      return (data) => new FBXLoader().parse(data, path)
+    case 'dae':
+      return (data) => new ColladaLoader().parse(toText(data), path).scene
+    case 'gltf':
+      return (data) =>
+        new Promise((resolve, reject) =>
+          new GLTFLoader().parse(
+            data,
+            path,
+            (result: GLTF) => resolve(result.scene),
+            reject
+          )
+        )
+    case 'gcode':
+      return (data) => new GCodeLoader().parse(toText(data))
+    case 'obj':
+      return (data) => new OBJLoader().parse(toText(data))
+    case 'pcd':
+      return (data) => new PCDLoader().parse(data, path)
+    case 'ply':
+      return (data) => new PLYLoader().parse(data)
+    case 'stl':
+      return (data) => new STLLoader().parse(data)
   }
 }
+
+function toText (data: ArrayBuffer): string {
+  return new TextDecoder('utf-8').decode(data)
+}
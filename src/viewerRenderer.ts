@@ -1,4 +1,8 @@
 import * as THREE from 'three'
+import { Model } from './model'
+import { GpuPick, GpuPicker } from './gpuPicker'
+
+const depthPoint = new THREE.Vector3()
 
 export class ViewerRenderer {
   camera: THREE.PerspectiveCamera
@@ -9,6 +13,9 @@ export class ViewerRenderer {
 
   boundingSphere: THREE.Sphere
   meshes: THREE.Object3D[] = []
+  picker: GpuPicker
+  // World to clip space of the frame being rendered, used to sort transparent meshes
+  private viewProjection = new THREE.Matrix4()
 
   constructor (canvas: HTMLCanvasElement) {
     this.canvas = canvas
@@ -23,17 +30,55 @@ export class ViewerRenderer {
     })
     this.renderer.setPixelRatio(window.devicePixelRatio)
     this.renderer.shadowMap.enabled = false
+    // Models are clipped through the clipping planes of their materials
+    this.renderer.localClippingEnabled = true
+    this.renderer.setTransparentSort(this.sortTransparent)
 
     this.camera = new THREE.PerspectiveCamera()
     this.scene = new THREE.Scene()
     this.boundingSphere = new THREE.Sphere()
+    this.picker = new GpuPicker(this.renderer)
     this.fitToCanvas()
   }
 
+  dispose () {
+    this.picker.dispose()
+    this.renderer.dispose()
+  }
+
+  // Returns the meshes drawn in a rectangle in window pixels, using the id buffer
+  gpuPick (rect: THREE.Box2): GpuPick[] {
+    const size = new THREE.Vector2(window.innerWidth, window.innerHeight)
+    return this.picker.pick(this.scene, this.camera, this.meshes, rect, size)
+  }
+
   render () {
+    this.camera.updateMatrixWorld()
+    this.viewProjection.multiplyMatrices(
+      this.camera.projectionMatrix,
+      this.camera.matrixWorldInverse
+    )
     this.renderer.render(this.scene, this.camera)
   }
 
+  // Same order as three.js, back to front, but by the center of vim transparent meshes rather than their origin
+  private sortTransparent = (a: THREE.RenderItem, b: THREE.RenderItem) => {
+    if (a.groupOrder !== b.groupOrder) return a.groupOrder - b.groupOrder
+    if (a.renderOrder !== b.renderOrder) return a.renderOrder - b.renderOrder
+    const za = this.getDepth(a)
+    const zb = this.getDepth(b)
+    return za !== zb ? zb - za : a.id - b.id
+  }
+
+  private getDepth (item: THREE.RenderItem): number {
+    const center = item.object.userData.center as THREE.Vector3 | undefined
+    if (!center) return item.z
+    return depthPoint
+      .copy(center)
+      .applyMatrix4(item.object.matrixWorld)
+      .applyMatrix4(this.viewProjection).z
+  }
+
   fitToCanvas () {
     const w = window.innerWidth / window.devicePixelRatio
     const h = window.innerHeight / window.devicePixelRatio
@@ -48,46 +93,24 @@ export class ViewerRenderer {
     })
   }
 
-  addToModel (meshes: THREE.Object3D[]) {
-    meshes.forEach((m) => {
-      this.scene.add(m)
-      this.meshes.push(m)
-    })
-  }
-
-  updateModel (matrix: THREE.Matrix4) {
-    for (let i = 0; i < this.meshes.length; i++) {
-      this.meshes[i].matrixAutoUpdate = false
-      this.meshes[i].matrix.copy(matrix)
-    }
+  addModel (model: Model) {
+    this.scene.add(model.object)
+    this.meshes.push(...model.meshes)
   }
 
-  computeBoundingSphere (matrix: THREE.Matrix4) {
-    this.boundingSphere = this._computeBoundingSphere(this.scene)
-    this.boundingSphere.applyMatrix4(matrix)
+  removeModel (model: Model) {
+    this.scene.remove(model.object)
+    this.meshes = this.meshes.filter((m) => !model.contains(m))
   }
 
-  _computeBoundingSphere (scene: THREE.Scene): THREE.Sphere {
+  // Fits the bounding sphere around all given models
+  updateBoundingSphere (models: Model[]) {
     let sphere: THREE.Sphere | undefined
-
-    const grow = (geometry: THREE.BufferGeometry, matrix: THREE.Matrix4) => {
-      geometry.computeBoundingSphere()
-      let currentSphere = geometry.boundingSphere!.clone()
-      currentSphere = currentSphere.applyMatrix4(matrix)
-      sphere = sphere ? sphere.union(currentSphere) : currentSphere
-    }
-    const matrix = new THREE.Matrix4()
-    scene.traverse((obj) => {
-      if (obj instanceof THREE.InstancedMesh) {
-        for (let i = 0; i < obj.count; i++) {
-          obj.getMatrixAt(i, matrix)
-          grow(obj.geometry, matrix)
-        }
-      } else if (obj instanceof THREE.Mesh) {
-        grow(obj.geometry, obj.matrix)
-      }
+    models.forEach((m) => {
+      sphere = sphere
+        ? sphere.union(m.boundingSphere)
+        : m.boundingSphere.clone()
     })
-
-    return sphere ?? new THREE.Sphere()
+    this.boundingSphere = sphere ?? new THREE.Sphere()
   }
 }
@@ -2,61 +2,328 @@
  @author VIM / https://vimaec.com
 */
 
-export const ViewerSettings = {
-  default: {
-    showGui: true,
-    showStats: true,
-    camera: {
-      near: 0.1,
-      far: 15000,
-      fov: 50,
-      zoom: 1,
-      rotate: 1.0,
-      controls: {
-        speed: 0.1,
-        shiftMultiplier: 5.0,
-        zoomSpeed: 0.2,
-        rotateSpeed: 0.01,
-        panSpeed: 0.1
-      }
-    },
-    background: {
-      color: { r: 0x72, g: 0x64, b: 0x5b }
-    },
-    plane: {
-      show: true,
-      material: {
-        color: { r: 0x99, g: 0x99, b: 0x99 },
-        specular: { r: 0x10, g: 0x10, b: 0x10 }
-      },
-      position: {
-        x: 0,
-        y: 0,
-        z: 0
-      }
-    },
-    skylight: {
-      skyColor: { h: 0.6, s: 1, l: 0.6 },
-      groundColor: { h: 0.095, s: 1, l: 0.75 },
-      intensity: 0.6
-    },
-    sunLight: {
-      position: { x: -1 * 30, y: 1.75 * 30, z: 1 * 30 },
-      color: { h: 0.1, s: 1, l: 0.95 },
-      intensity: 1
+import deepmerge from 'deepmerge'
+
+// Color with components in [0, 255]
+export interface ColorRGB {
+  r: number
+  g: number
+  b: number
+}
+
+// Color with saturation and lightness in [0, 1]
+export interface ColorHSL {
+  h: number
+  s: number
+  l: number
+}
+
+export interface Vector3 {
+  x: number
+  y: number
+  z: number
+}
+
+export interface MaterialSettings {
+  color?: ColorRGB
+  emissive?: ColorRGB
+  specular?: ColorRGB
+  flatShading?: boolean
+  shininess?: number
+  wireframe?: boolean
+}
+
+export interface ViewerSettings {
+  // Id of the canvas to render to, a new canvas is created if undefined
+  canvasId?: string
+  // Model loaded on creation
+  url?: string
+  // Overrides the extension of the url
+  fileExtension?: string
+  // Resize the renderer to the window every frame
+  autoResize: boolean
+  showGui: boolean
+  showStats: boolean
+  // Panel listing the properties of the selected element
+  showInspector: boolean
+  // Panel browsing the elements by level, category, family and type
+  showModelTree: boolean
+  // Load files dropped on the canvas
+  dropZone: boolean
+  // Draw the transparent parts of VIM models, such as glass
+  showTransparent: boolean
+  // Rotate the camera around its target instead of on itself
+  mouseOrbit: boolean
+  // Pick from an offscreen id buffer rather than by raycasting, when WebGL 2 is available
+  gpuPicking: boolean
+  camera: {
+    near: number
+    far: number
+    fov: number
+    zoom: number
+    rotate: number
+    controls: {
+      speed: number
+      shiftMultiplier: number
+      zoomSpeed: number
+      rotateSpeed: number
+      panSpeed: number
+    }
+  }
+  background: {
+    color: ColorRGB
+  }
+  // Tint of selected nodes
+  highlight: {
+    color: ColorRGB
+    opacity: number
+  }
+  // Tint of the node under the mouse
+  hover: {
+    enabled: boolean
+    color: ColorRGB
+    opacity: number
+    // Minimum time between two hover picks, in milliseconds
+    interval: number
+  }
+  // Look of ghosted nodes
+  ghost: {
+    color: ColorRGB
+    opacity: number
+  }
+  // Look and units of the measure tool
+  measure: {
+    color: ColorRGB
+    // Shown after lengths, as its square after areas, such as 'ft' or 'm'. Overrides the unit of the VIM when not empty
+    unit: string
+    // Number of decimals
+    precision: number
+  }
+  plane: {
+    show: boolean
+    material: MaterialSettings
+    position: Vector3
+  }
+  skylight: {
+    skyColor: ColorHSL
+    groundColor: ColorHSL
+    intensity: number
+  }
+  sunLight: {
+    position: Vector3
+    color: ColorHSL
+    intensity: number
+  }
+  // Default transform of loaded models
+  object: {
+    scale: number
+    position: Vector3
+    // Euler angles in degrees
+    rotation: Vector3
+    material: MaterialSettings
+  }
+}
+
+type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K]
+}
+
+/**
+ * Options given to the viewer, anything not defined uses the default settings.
+ */
+export type ViewerOptions = DeepPartial<ViewerSettings>
+
+export const defaultViewerSettings: ViewerSettings = {
+  autoResize: false,
+  showGui: true,
+  showStats: true,
+  showInspector: false,
+  showModelTree: false,
+  dropZone: false,
+  showTransparent: true,
+  mouseOrbit: false,
+  gpuPicking: false,
+  camera: {
+    near: 0.1,
+    far: 15000,
+    fov: 50,
+    zoom: 1,
+    rotate: 1.0,
+    controls: {
+      speed: 0.1,
+      shiftMultiplier: 5.0,
+      zoomSpeed: 0.2,
+      rotateSpeed: 0.01,
+      panSpeed: 0.1
+    }
+  },
+  background: {
+    color: { r: 0x72, g: 0x64, b: 0x5b }
+  },
+  highlight: {
+    color: { r: 0x00, g: 0x00, b: 0xff },
+    opacity: 0.5
+  },
+  hover: {
+    enabled: true,
+    color: { r: 0x00, g: 0xff, b: 0xff },
+    opacity: 0.3,
+    interval: 50
+  },
+  ghost: {
+    color: { r: 0x80, g: 0x80, b: 0x80 },
+    opacity: 0.1
+  },
+  measure: {
+    color: { r: 0xff, g: 0xaa, b: 0x00 },
+    unit: '',
+    precision: 2
+  },
+  plane: {
+    show: true,
+    material: {
+      color: { r: 0x99, g: 0x99, b: 0x99 },
+      emissive: { r: 0x00, g: 0x00, b: 0x00 },
+      specular: { r: 0x10, g: 0x10, b: 0x10 },
+      flatShading: false,
+      shininess: 30,
+      wireframe: false
     },
-    object: {
-      scale: 0.01,
-      position: { x: 0, y: 0, z: 0 },
-      rotation: { x: 0, y: 0, z: 0 },
-      material: {
-        color: { r: 0x00, g: 0x55, b: 0xff },
-        emissive: { r: 0x00, g: 0x00, b: 0x00 },
-        specular: { r: 0x11, g: 0x11, b: 0x11 },
-        flatShading: true,
-        shininess: 30,
-        wireframe: false
+    position: {
+      x: 0,
+      y: 0,
+      z: 0
+    }
+  },
+  skylight: {
+    skyColor: { h: 0.6, s: 1, l: 0.6 },
+    groundColor: { h: 0.095, s: 1, l: 0.75 },
+    intensity: 0.6
+  },
+  sunLight: {
+    position: { x: -1 * 30, y: 1.75 * 30, z: 1 * 30 },
+    color: { h: 0.1, s: 1, l: 0.95 },
+    intensity: 1
+  },
+  object: {
+    scale: 0.01,
+    position: { x: 0, y: 0, z: 0 },
+    rotation: { x: 0, y: 0, z: 0 },
+    material: {
+      color: { r: 0x00, g: 0x55, b: 0xff },
+      emissive: { r: 0x00, g: 0x00, b: 0x00 },
+      specular: { r: 0x11, g: 0x11, b: 0x11 },
+      flatShading: true,
+      shininess: 30,
+      wireframe: false
+    }
+  }
+}
+
+// Merges options into settings, and validates the result
+export function mergeSettings (
+  settings: ViewerSettings,
+  options: ViewerOptions
+): ViewerSettings {
+  const result = deepmerge<ViewerSettings>(
+    settings,
+    options as Partial<ViewerSettings>
+  )
+  validateSettings(result)
+  return result
+}
+
+/**
+ * Throws an error naming the first setting which doesn't have the expected type,
+ * or which is unknown. The default settings are used as the schema.
+ */
+export function validateSettings (settings: ViewerSettings) {
+  // The only settings without a default
+  const { canvasId, url, fileExtension, ...others } = settings
+  validate(others, defaultViewerSettings, '')
+  Object.entries({ canvasId, url, fileExtension }).forEach(([key, value]) => {
+    if (value !== undefined && typeof value !== 'string') {
+      throw invalid(key, 'a string', value)
+    }
+  })
+}
+
+function validate (value: any, schema: any, path: string) {
+  if (typeof schema !== 'object') {
+    if (typeof value !== typeof schema) {
+      throw invalid(path, `a ${typeof schema}`, value)
+    }
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+      throw invalid(path, 'a finite number', value)
+    }
+    return
+  }
+
+  if ('r' in schema) {
+    if (!isColorRGB(value)) {
+      throw invalid(path, 'a color { r, g, b } with values in [0, 255]', value)
+    }
+  } else if ('h' in schema) {
+    if (!isColorHSL(value)) {
+      throw invalid(path, 'a color { h, s, l } with s and l in [0, 1]', value)
+    }
+  } else if ('x' in schema) {
+    if (!isVector3(value)) {
+      throw invalid(path, 'a vector { x, y, z } of finite numbers', value)
+    }
+  } else {
+    if (typeof value !== 'object' || value === null) {
+      throw invalid(path, 'an object', value)
+    }
+    for (const key in value) {
+      if (!(key in schema)) {
+        throw new Error(`Unknown setting '${path ? `${path}.${key}` : key}'`)
       }
     }
+    for (const key in schema) {
+      validate(value[key], schema[key], path ? `${path}.${key}` : key)
+    }
   }
 }
+
+function invalid (path: string, expected: string, value: unknown) {
+  // JSON would show NaN and Infinity as null
+  const text = typeof value === 'number' ? value : JSON.stringify(value)
+  return new Error(
+    `Invalid setting '${path}': expected ${expected}, got ${text}`
+  )
+}
+
+function isInRange (value: unknown, min: number, max: number) {
+  return typeof value === 'number' && value >= min && value <= max
+}
+
+export function isColorRGB (obj: any): obj is ColorRGB {
+  return (
+    typeof obj === 'object' &&
+    obj !== null &&
+    isInRange(obj.r, 0, 255) &&
+    isInRange(obj.g, 0, 255) &&
+    isInRange(obj.b, 0, 255)
+  )
+}
+
+export function isColorHSL (obj: any): obj is ColorHSL {
+  return (
+    typeof obj === 'object' &&
+    obj !== null &&
+    Number.isFinite(obj.h) &&
+    isInRange(obj.s, 0, 1) &&
+    isInRange(obj.l, 0, 1)
+  )
+}
+
+export function isVector3 (obj: any): obj is Vector3 {
+  return (
+    typeof obj === 'object' &&
+    obj !== null &&
+    Number.isFinite(obj.x) &&
+    Number.isFinite(obj.y) &&
+    Number.isFinite(obj.z)
+  )
+}
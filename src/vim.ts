@@ -2,23 +2,27 @@ import * as THREE from 'three'
 import { BFast } from './bfast'
 import { VimG3d } from './g3d'
 import { BufferGeometryBuilder } from './VIMLoader'
+import { computeNodeBoxes } from './geometryData'
+import { NodeVisibility, visibilityValues } from './vimMaterial'
+import { BimData, ElementProperties } from './bim'
 
 class Vim {
   static tableElement = 'Vim.Element'
   static tableNode = 'Vim.Node'
 
-  header: string
-  assets: BFast
+  // Header, assets, bim and strings are undefined until loaded when streaming
+  header: string | undefined
+  assets: BFast | undefined
   g3d: VimG3d
   bim: any
-  strings: string[]
+  strings: string[] | undefined
 
   constructor (
-    header: string,
-    assets: BFast,
+    header: string | undefined,
+    assets: BFast | undefined,
     g3d: VimG3d,
     entities: any,
-    strings: string[]
+    strings: string[] | undefined
   ) {
     this.header = header
     this.assets = assets
@@ -28,23 +32,22 @@ class Vim {
   }
 }
 
-class VimSceneGeometry {
-  meshes: THREE.Mesh[]
-  boundingSphere: THREE.Sphere
-  nodeIndexToMeshInstance: Map<number, [THREE.Mesh, number]>
-  meshIdToNodeIndex: Map<number, [number]>
+// Merged nodes of a merged mesh
+type MergedNodes = {
+  // In vertex order, with their first vertex
+  nodes: Int32Array
+  vertexOffsets: Int32Array
+  // First vertex and vertex count of each node
+  ranges: Map<number, [number, number]>
+}
 
-  constructor (
-    meshes: THREE.Mesh[],
-    boundingSphere: THREE.Sphere,
-    nodeIndexToMeshInstance: Map<number, [THREE.Mesh, number]>,
-    meshIdToNodeIndex: Map<number, [number]>
-  ) {
-    this.meshes = meshes
-    this.boundingSphere = boundingSphere
-    this.nodeIndexToMeshInstance = nodeIndexToMeshInstance
-    this.meshIdToNodeIndex = meshIdToNodeIndex
-  }
+class VimSceneGeometry {
+  meshes: THREE.Mesh[] = []
+  boundingSphere = new THREE.Sphere()
+  // A node is drawn by up to two meshes, one opaque and one transparent
+  nodeIndexToMeshInstance = new Map<number, [THREE.Mesh, number][]>()
+  meshIdToNodeIndex = new Map<number, [number]>()
+  private mergedNodes = new Map<THREE.Mesh, MergedNodes>()
 
   getNodeCount (): number {
     return this.nodeIndexToMeshInstance.size
@@ -54,6 +57,97 @@ class VimSceneGeometry {
     return this.meshes.length
   }
 
+  // Adds a mesh with one instance per given node
+  addInstancedMesh (mesh: THREE.InstancedMesh, nodes: Int32Array) {
+    this.meshes.push(mesh)
+    this.meshIdToNodeIndex.set(mesh.id, Array.from(nodes) as [number])
+
+    const matrix = new THREE.Matrix4()
+    for (let i = 0; i < nodes.length; i++) {
+      this.addNodeMesh(nodes[i], mesh, i)
+      mesh.getMatrixAt(i, matrix)
+      this.expandBoundingSphere(
+        mesh.geometry.boundingSphere!.clone().applyMatrix4(matrix)
+      )
+    }
+  }
+
+  // Adds the mesh of merged nodes, the instance index of a merged node is the node index
+  addMergedMesh (
+    mesh: THREE.Mesh,
+    nodes: Int32Array,
+    vertexOffsets: Int32Array
+  ) {
+    this.addMesh(mesh)
+    const ranges = new Map<number, [number, number]>()
+    for (let i = 0; i < nodes.length; i++) {
+      const node = nodes[i]
+      this.addNodeMesh(node, mesh, node)
+      ranges.set(node, [
+        vertexOffsets[i],
+        vertexOffsets[i + 1] - vertexOffsets[i]
+      ])
+    }
+    this.mergedNodes.set(mesh, { nodes, vertexOffsets, ranges })
+  }
+
+  // Returns the node owning given vertex of a merged mesh
+  getMergedNodeFromVertex (
+    mesh: THREE.Mesh,
+    vertex: number
+  ): number | undefined {
+    const merged = this.mergedNodes.get(mesh)
+    if (!merged) return
+    const offsets = merged.vertexOffsets
+    if (vertex < 0 || !(vertex < offsets[offsets.length - 1])) return
+
+    // Last node whose first vertex is not after given vertex
+    let low = 0
+    let high = merged.nodes.length - 1
+    while (low < high) {
+      const mid = (low + high + 1) >> 1
+      if (offsets[mid] <= vertex) low = mid
+      else high = mid - 1
+    }
+    return merged.nodes[low]
+  }
+
+  // Sets an attribute for given node, per instance or per merged vertex, with one value per component
+  setNodeAttribute (
+    nodeIndex: number,
+    name: string,
+    value: number | ArrayLike<number>
+  ) {
+    this.nodeIndexToMeshInstance.get(nodeIndex)?.forEach(([mesh, instance]) => {
+      const attribute = mesh.geometry.getAttribute(
+        name
+      ) as THREE.BufferAttribute
+      if (!attribute) return
+
+      const [start, count] = this.getNodeRange(mesh, nodeIndex, instance)
+      const array = attribute.array as Float32Array
+      if (typeof value === 'number') {
+        array.fill(value, start, start + count)
+      } else {
+        for (let i = start; i < start + count; i++) {
+          array.set(value, i * attribute.itemSize)
+        }
+      }
+      this.addUpdateRange(attribute, start, count)
+    })
+  }
+
+  // Returns the value of a single component attribute for given node, undefined without geometry
+  getNodeAttribute (nodeIndex: number, name: string): number | undefined {
+    // All meshes of a node hold the same values
+    const [mesh, instance] =
+      this.nodeIndexToMeshInstance.get(nodeIndex)?.[0] ?? []
+    const attribute = mesh?.geometry.getAttribute(name) as THREE.BufferAttribute
+    if (!attribute) return
+
+    return attribute.getX(this.getNodeRange(mesh, nodeIndex, instance)[0])
+  }
+
   addMesh (mesh: THREE.Mesh) {
     this.meshes.push(mesh)
 
@@ -62,9 +156,48 @@ class VimSceneGeometry {
       return
     }
 
-    this.boundingSphere =
-      this.boundingSphere?.union(mesh.geometry.boundingSphere) ??
-      mesh.geometry.boundingSphere
+    this.expandBoundingSphere(mesh.geometry.boundingSphere)
+  }
+
+  private addNodeMesh (nodeIndex: number, mesh: THREE.Mesh, instance: number) {
+    const meshes = this.nodeIndexToMeshInstance.get(nodeIndex)
+    if (meshes) meshes.push([mesh, instance])
+    else this.nodeIndexToMeshInstance.set(nodeIndex, [[mesh, instance]])
+  }
+
+  // Uploads given items on next render, along with those changed since the last one
+  private addUpdateRange (
+    attribute: THREE.BufferAttribute,
+    start: number,
+    count: number
+  ) {
+    const range = attribute.updateRange
+    const offset = start * attribute.itemSize
+    const end = offset + count * attribute.itemSize
+    // Three.js sets count back to -1 once the range is uploaded
+    if (range.count === -1) {
+      range.offset = offset
+      range.count = end - offset
+    } else {
+      const rangeEnd = Math.max(range.offset + range.count, end)
+      range.offset = Math.min(range.offset, offset)
+      range.count = rangeEnd - range.offset
+    }
+    attribute.needsUpdate = true
+  }
+
+  // First item and item count of a node in the attributes of given mesh
+  private getNodeRange (
+    mesh: THREE.Mesh,
+    nodeIndex: number,
+    instance: number
+  ): [number, number] {
+    return this.mergedNodes.get(mesh)?.ranges.get(nodeIndex) ?? [instance, 1]
+  }
+
+  private expandBoundingSphere (sphere: THREE.Sphere) {
+    if (this.boundingSphere.isEmpty()) this.boundingSphere.copy(sphere)
+    else this.boundingSphere.union(sphere)
   }
 }
 
@@ -73,6 +206,13 @@ class VimScene {
   geometry: VimSceneGeometry
   geometryBuilder: BufferGeometryBuilder
   elementToNodes: Map<number, number[]>
+  // Subtracted from the model space coordinates of the g3d, non zero for models far from it
+  origin = new THREE.Vector3()
+  // Computed on first use
+  private nodeBoxes: Float32Array | undefined
+  private ghostedNodes = new Set<number>()
+  private coloredNodes = new Set<number>()
+  private bimData: BimData | undefined
 
   constructor (
     vim: Vim,
@@ -82,12 +222,22 @@ class VimScene {
     this.vim = vim
     this.geometry = geometry
     this.geometryBuilder = geometryBuilder
-    this.elementToNodes = this.mapElements()
+    this.mapElements()
+  }
+
+  hasBim (): boolean {
+    return !!this.vim.bim
   }
 
-  private mapElements (): Map<number, number[]> {
-    const nodeCount = this.geometry.getNodeCount()
+  // Builds the element to nodes lookup, to be called again once bim is loaded
+  mapElements () {
     const map = new Map<number, number[]>()
+    this.elementToNodes = map
+    this.bimData = undefined
+    if (!this.hasBim()) return
+
+    // Nodes without geometry are not in the geometry maps, count all g3d instances
+    const nodeCount = this.getNodeCount()
     for (let i = 0; i < nodeCount; i++) {
       const elementId = this.getElementIdFromNodeIndex(i)!
       const nodes = map.get(elementId)
@@ -97,7 +247,81 @@ class VimScene {
         map.set(elementId, [i])
       }
     }
-    return map
+  }
+
+  getNodeCount (): number {
+    return this.vim.g3d.getInstanceCount()
+  }
+
+  setNodeHighlight (nodeIndex: number, highlighted: boolean) {
+    this.geometry.setNodeAttribute(
+      nodeIndex,
+      'highlighted',
+      highlighted ? 1 : 0
+    )
+  }
+
+  setNodeHover (nodeIndex: number, hovered: boolean) {
+    this.geometry.setNodeAttribute(nodeIndex, 'hovered', hovered ? 1 : 0)
+  }
+
+  // Nodes without geometry are ignored
+  setNodeVisibility (nodeIndex: number, visibility: NodeVisibility) {
+    if (!this.geometry.nodeIndexToMeshInstance.has(nodeIndex)) return
+    if (visibility === 'ghosted') this.ghostedNodes.add(nodeIndex)
+    else this.ghostedNodes.delete(nodeIndex)
+    this.geometry.setNodeAttribute(
+      nodeIndex,
+      'visibility',
+      visibilityValues[visibility]
+    )
+  }
+
+  // Nodes without geometry are always visible
+  getNodeVisibility (nodeIndex: number): NodeVisibility {
+    const value = this.geometry.getNodeAttribute(nodeIndex, 'visibility')
+    if (value === visibilityValues.hidden) return 'hidden'
+    if (value === visibilityValues.ghosted) return 'ghosted'
+    return 'visible'
+  }
+
+  /**
+   * Overrides the color of a node, or restores its original color when undefined.
+   * Nodes without geometry are ignored.
+   */
+  setNodeColor (nodeIndex: number, color: THREE.Color | undefined) {
+    if (!this.geometry.nodeIndexToMeshInstance.has(nodeIndex)) return
+    if (color) this.coloredNodes.add(nodeIndex)
+    else this.coloredNodes.delete(nodeIndex)
+    // Normalized bytes, the last one enables the override
+    const value = color
+      ? [color.r * 255, color.g * 255, color.b * 255, 255]
+      : [0, 0, 0, 0]
+    this.geometry.setNodeAttribute(nodeIndex, 'colorOverride', value)
+  }
+
+  // Restores the original color of all nodes
+  clearNodeColors () {
+    this.coloredNodes.forEach((node) => this.setNodeColor(node, undefined))
+  }
+
+  hasGhostedNodes (): boolean {
+    return this.ghostedNodes.size > 0
+  }
+
+  // Returns the bounding box of a node in model space, undefined if it has no geometry
+  getNodeBoundingBox (
+    nodeIndex: number,
+    target: THREE.Box3 = new THREE.Box3()
+  ): THREE.Box3 | undefined {
+    if (nodeIndex < 0) throw new Error('Invalid negative index')
+    if (!this.nodeBoxes) this.nodeBoxes = computeNodeBoxes(this.vim.g3d)
+
+    const offset = nodeIndex * 6
+    if (this.nodeBoxes[offset] > this.nodeBoxes[offset + 3]) return
+    target.min.fromArray(this.nodeBoxes, offset)
+    target.max.fromArray(this.nodeBoxes, offset + 3)
+    return target
   }
 
   getNodeIndicesFromElement (elementId: number): number[] | undefined {
@@ -110,12 +334,17 @@ class VimScene {
 
     const result: [THREE.Mesh, number][] = []
     nodeIndices.forEach((i) => {
-      result.push(this.getMeshFromNodeIndex(i)!)
+      // Nodes without geometry have no mesh
+      const meshes = this.getMeshesFromNodeIndex(i)
+      if (meshes) result.push(...meshes)
     })
     return result
   }
 
-  getMeshFromNodeIndex (nodeIndex: number): [THREE.Mesh, number] | undefined {
+  // Opaque and transparent meshes drawing given node, with the node instance in each
+  getMeshesFromNodeIndex (
+    nodeIndex: number
+  ): [THREE.Mesh, number][] | undefined {
     if (nodeIndex < 0) throw new Error('Invalid negative index')
 
     return this.geometry.nodeIndexToMeshInstance.get(nodeIndex)
@@ -144,7 +373,9 @@ class VimScene {
   getElementIndexFromNodeIndex (nodeIndex: number): number | undefined {
     if (nodeIndex < 0) throw new Error('Invalid negative index')
 
-    return this.vim.bim.get(Vim.tableNode).get(Vim.tableElement)[nodeIndex]
+    return this.getBim()
+      ?.getTable(Vim.tableNode)
+      ?.getIndex(`${Vim.tableElement}:Element`, nodeIndex)
   }
 
   getElementIdFromNodeIndex (nodeIndex: number): number | undefined {
@@ -153,27 +384,47 @@ class VimScene {
     const elementIndex = this.getElementIndexFromNodeIndex(nodeIndex)
     if (elementIndex === undefined) return
 
-    return this.vim.bim.get(Vim.tableElement).get('Id')[elementIndex]
+    return this.getBim()
+      .getTable(Vim.tableElement)
+      ?.getNumber('Id', elementIndex)
   }
 
-  // TODO add better ways to access bim
   getElementNameFromNodeIndex (nodeIndex: number): string | undefined {
     if (nodeIndex < 0) throw new Error('Invalid negative node index')
 
     const elementIndex = this.getElementIndexFromNodeIndex(nodeIndex)
     if (elementIndex === undefined) return
 
-    const nameIndex = this.vim.bim.get(Vim.tableElement).get('Name')[
-      elementIndex
-    ]
+    return this.getBim()
+      .getTable(Vim.tableElement)
+      ?.getString('Name', elementIndex)
+  }
+
+  /**
+   * Returns the category, family, type, level and parameters of an element.
+   * Undefined if the bim is not loaded or the element is unknown.
+   */
+  getElementProperties (elementId: number): ElementProperties | undefined {
+    const bim = this.getBim()
+    const elementIndex = bim?.getElementIndex(elementId)
+    if (elementIndex === undefined) return
+
+    return bim.getElementProperties(elementIndex)
+  }
 
-    return this.getStringFromIndex(nameIndex as number)
+  // Typed access to the entity tables, undefined until the bim is loaded
+  getBim (): BimData | undefined {
+    if (!this.hasBim()) return
+    if (!this.bimData) {
+      this.bimData = new BimData(this.vim.bim, this.vim.strings)
+    }
+    return this.bimData
   }
 
   getStringFromIndex (stringIndex: number): string | undefined {
     if (stringIndex < 0) throw new Error('Invalid negative string index')
 
-    return this.vim.strings[stringIndex]
+    return this.vim.strings?.[stringIndex]
   }
 }
 
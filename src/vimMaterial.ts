@@ -0,0 +1,153 @@
+/**
+ @author VIM / https://vimaec.com
+*/
+
+import * as THREE from 'three'
+
+/**
+ * Uniforms shared by all materials patched by a viewer, changing a value updates all models.
+ */
+export interface VimMaterialUniforms {
+  highlightColor: THREE.IUniform<THREE.Color>
+  highlightOpacity: THREE.IUniform<number>
+  hoverColor: THREE.IUniform<THREE.Color>
+  hoverOpacity: THREE.IUniform<number>
+  ghostColor: THREE.IUniform<THREE.Color>
+  ghostOpacity: THREE.IUniform<number>
+}
+
+// Per node attributes read by the shader, with one component.
+// There is also 'colorOverride', normalized rgb bytes and a byte enabling the override.
+export const nodeAttributes = ['highlighted', 'hovered', 'visibility']
+
+export type NodeVisibility = 'visible' | 'ghosted' | 'hidden'
+
+// Values of the visibility attribute, 0 is the default
+export const visibilityValues: Record<NodeVisibility, number> = {
+  visible: 0,
+  ghosted: 1,
+  hidden: 2
+}
+
+export function createVimMaterialUniforms (): VimMaterialUniforms {
+  return {
+    highlightColor: { value: new THREE.Color(0x0000ff) },
+    highlightOpacity: { value: 0.5 },
+    hoverColor: { value: new THREE.Color(0x00ffff) },
+    hoverOpacity: { value: 0.3 },
+    ghostColor: { value: new THREE.Color(0x808080) },
+    ghostOpacity: { value: 0.1 }
+  }
+}
+
+/**
+ * Patches the shader of a material used by vim meshes.
+ * Nodes whose 'highlighted' or 'hovered' attribute is 1 are tinted with the matching color.
+ * Nodes with a color override use it instead of their vertex colors.
+ * Nodes which are not visible are collapsed to nothing, ghosted ones are drawn by the ghost material.
+ * Attributes are per instance on instanced meshes and per vertex on merged meshes.
+ */
+export function patchVimMaterial (
+  material: THREE.Material,
+  uniforms: VimMaterialUniforms
+) {
+  material.onBeforeCompile = (shader) => {
+    Object.assign(shader.uniforms, uniforms)
+    shader.vertexShader = shader.vertexShader
+      .replace(
+        '#include <common>',
+        `#include <common>
+        attribute float highlighted;
+        attribute float hovered;
+        attribute float visibility;
+        attribute vec4 colorOverride;
+        varying float vHighlighted;
+        varying float vHovered;`
+      )
+      .replace(
+        '#include <begin_vertex>',
+        `#include <begin_vertex>
+        vHighlighted = highlighted;
+        vHovered = hovered;`
+      )
+      .replace(
+        '#include <color_vertex>',
+        `#include <color_vertex>
+        #ifdef USE_COLOR
+          if (colorOverride.a > 0.5) vColor.rgb = colorOverride.rgb;
+        #endif`
+      )
+      .replace(
+        '#include <project_vertex>',
+        `#include <project_vertex>
+        ${collapseUnless('visibility < 0.5')}`
+      )
+    shader.fragmentShader = shader.fragmentShader
+      .replace(
+        '#include <common>',
+        `#include <common>
+        uniform vec3 highlightColor;
+        uniform float highlightOpacity;
+        uniform vec3 hoverColor;
+        uniform float hoverOpacity;
+        varying float vHighlighted;
+        varying float vHovered;`
+      )
+      .replace(
+        '#include <output_fragment>',
+        `#include <output_fragment>
+        gl_FragColor.rgb = mix(gl_FragColor.rgb, highlightColor, vHighlighted * highlightOpacity);
+        gl_FragColor.rgb = mix(gl_FragColor.rgb, hoverColor, vHovered * hoverOpacity);`
+      )
+  }
+  // Keeps three.js from sharing the program with unpatched materials
+  material.customProgramCacheKey = () => 'vim'
+  material.needsUpdate = true
+}
+
+/**
+ * Creates the see-through material of ghost meshes, which only draws ghosted nodes.
+ */
+export function createGhostMaterial (
+  uniforms: VimMaterialUniforms
+): THREE.Material {
+  const material = new THREE.MeshBasicMaterial({
+    transparent: true,
+    depthWrite: false,
+    side: THREE.DoubleSide
+  })
+  material.onBeforeCompile = (shader) => {
+    Object.assign(shader.uniforms, uniforms)
+    shader.vertexShader = shader.vertexShader
+      .replace(
+        '#include <common>',
+        `#include <common>
+        attribute float visibility;`
+      )
+      .replace(
+        '#include <project_vertex>',
+        `#include <project_vertex>
+        ${collapseUnless('visibility > 0.5 && visibility < 1.5')}`
+      )
+    shader.fragmentShader = shader.fragmentShader
+      .replace(
+        '#include <common>',
+        `#include <common>
+        uniform vec3 ghostColor;
+        uniform float ghostOpacity;`
+      )
+      .replace(
+        '#include <output_fragment>',
+        `#include <output_fragment>
+        gl_FragColor = vec4(ghostColor, ghostOpacity);`
+      )
+  }
+  material.customProgramCacheKey = () => 'vim-ghost'
+  return material
+}
+
+// Moves all vertices outside of the clip volume unless condition holds.
+// Nodes are collapsed as a whole since all their vertices share the attribute value.
+function collapseUnless (condition: string) {
+  return `if (!(${condition})) gl_Position = vec4(0.0, 0.0, 2.0, 1.0);`
+}
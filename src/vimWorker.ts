@@ -0,0 +1,14 @@
+/**
+ @author VIM / https://vimaec.com
+*/
+
+// Entry point of the geometry worker, see GeometryWorker.
+import { GeometryRequest, handleGeometryRequest } from './geometryData'
+
+self.onmessage = (event: MessageEvent<GeometryRequest>) => {
+  const id = event.data.id
+  const [response, transfer] = handleGeometryRequest(event.data, (progress) =>
+    self.postMessage({ id, progress })
+  )
+  self.postMessage(response, { transfer })
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest'
+import * as THREE from 'three'
+import { VIMLoader } from '../src/VIMLoader'
+import { parseBFastFromArray } from '../src/bfast'
+import { BimData } from '../src/bim'
+import { EntityTableError } from '../src/loadErrors'
+import { makeBFast, makeBim, toBytes } from './helpers'
+
+describe('BimData', () => {
+  it('finds the properties of an element', () => {
+    const bim = makeBim()
+    const properties = bim.getElementProperties(bim.getElementIndex(100), false)
+
+    expect(properties).toEqual({
+      index: 0,
+      id: 100,
+      name: 'Door',
+      category: 'Doors',
+      family: 'Single Door',
+      type: '900mm',
+      level: 'Level 1',
+      parameters: []
+    })
+  })
+
+  it('leaves missing properties undefined', () => {
+    const bim = makeBim()
+    const properties = bim.getElementProperties(bim.getElementIndex(200))
+
+    expect(properties.category).toBeUndefined()
+    expect(properties.family).toBeUndefined()
+    expect(properties.level).toBe('Level 1')
+  })
+
+  it('decodes the properties column by entity', () => {
+    const elements = makeBim().getTable('Vim.Element')
+
+    expect(elements.getPropertyCount()).toBe(2)
+    expect(elements.getProperty(0)).toEqual({
+      entity: 1,
+      name: 'Fire Rating',
+      value: '60'
+    })
+    expect(elements.getEntityProperties(0)).toEqual([
+      { entity: 0, name: 'Fire Rating', value: '90' }
+    ])
+    expect(elements.getEntityProperties(2)).toEqual([])
+  })
+
+  it('lists element properties after the parameters', () => {
+    const bim = makeBim()
+
+    expect(bim.getElementParameters(0)).toEqual([
+      { name: 'Width', group: 'Dimensions', value: '0.9' },
+      { name: 'Mark', group: undefined, value: 'D1' },
+      { name: 'Fire Rating', group: undefined, value: '90' }
+    ])
+  })
+
+  it('finds the length unit in the display units', () => {
+    const strings = ['', 'UT_Area', 'm²', 'UT_Length', 'ft']
+    const units = new Map([
+      ['string:Spec', new Int32Array([1, 3])],
+      ['string:Label', new Int32Array([2, 4])]
+    ])
+    const bim = new BimData(new Map([['Vim.DisplayUnit', units]]), strings)
+
+    expect(bim.getLengthUnit()).toBe('ft')
+    expect(makeBim().getLengthUnit()).toBeUndefined()
+  })
+})
+
+describe('VIMLoader.constructEntityTable', () => {
+  const loader = new VIMLoader(new THREE.MeshBasicMaterial())
+
+  it('reads the properties column as int triples', () => {
+    const bfast = makeBFast(
+      ['numeric:Id', 'properties'],
+      [
+        toBytes(new Float64Array([100, 200])),
+        toBytes(new Int32Array([1, 2, 3, 0, 4, 5]))
+      ]
+    )
+    const table = loader.constructEntityTable(parseBFastFromArray(bfast))
+
+    expect(Array.from(table.get('properties'))).toEqual([1, 2, 3, 0, 4, 5])
+  })
+
+  it('rejects a properties column which is not made of triples', () => {
+    const bfast = makeBFast(['properties'], [toBytes(new Int32Array([1, 2]))])
+
+    expect(() =>
+      loader.constructEntityTable(parseBFastFromArray(bfast))
+    ).toThrow(EntityTableError)
+  })
+})
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest'
+import { buildBvh, buildTriangleBvh, raycastBvh } from '../src/bvh'
+
+// Boxes on a grid, with sizes varying so that some overlap
+function makeBoxes (count: number): Float32Array {
+  const boxes = new Float32Array(count * 6)
+  for (let i = 0; i < count; i++) {
+    const min = [(i % 10) * 2, Math.floor(i / 10) % 10, Math.floor(i / 100)]
+    const size = 0.5 + (i % 7) * 0.25
+    boxes.set([...min, min[0] + size, min[1] + size, min[2] + size], i * 6)
+  }
+  return boxes
+}
+
+function raycastAll (
+  boxes: Float32Array,
+  origin: number[],
+  direction: number[]
+): number[] {
+  const result: number[] = []
+  for (let i = 0; i < boxes.length / 6; i++) {
+    let near = 0
+    let far = Infinity
+    for (let axis = 0; axis < 3; axis++) {
+      const t0 = (boxes[i * 6 + axis] - origin[axis]) / direction[axis]
+      const t1 = (boxes[i * 6 + axis + 3] - origin[axis]) / direction[axis]
+      near = Math.max(near, Math.min(t0, t1))
+      far = Math.min(far, Math.max(t0, t1))
+    }
+    if (near <= far) result.push(i)
+  }
+  return result
+}
+
+function raycast (
+  bvh: ReturnType<typeof buildBvh>,
+  origin: number[],
+  direction: number[]
+): number[] {
+  const result: number[] = []
+  raycastBvh(bvh, origin, direction, (item) => result.push(item))
+  return result.sort((a, b) => a - b)
+}
+
+describe('buildBvh', () => {
+  it('holds each item once', () => {
+    const bvh = buildBvh(makeBoxes(1000))
+    const items = Array.from(bvh.items).sort((a, b) => a - b)
+    expect(items).toEqual(Array.from({ length: 1000 }, (_, i) => i))
+  })
+
+  it('finds all items found by testing each box', () => {
+    const boxes = makeBoxes(1000)
+    const bvh = buildBvh(boxes)
+    const rays = [
+      [
+        [-1, 0.6, 0.6],
+        [1, 0.01, 0.02]
+      ],
+      [
+        [5.2, -1, 3.3],
+        [0.05, 1, 0.1]
+      ],
+      [
+        [-5, -5, -5],
+        [1, 1, 1]
+      ]
+    ]
+    rays.forEach(([origin, direction]) => {
+      const result = raycast(bvh, origin, direction)
+      expect(result).toEqual(
+        expect.arrayContaining(raycastAll(boxes, origin, direction))
+      )
+    })
+  })
+
+  it('finds nothing with a ray missing all boxes', () => {
+    const bvh = buildBvh(makeBoxes(1000))
+    expect(raycast(bvh, [100, 100, 100], [1, 0, 0])).toEqual([])
+  })
+
+  it('handles no items', () => {
+    const bvh = buildBvh(new Float32Array(0))
+    expect(raycast(bvh, [0, 0, 0], [1, 0, 0])).toEqual([])
+  })
+})
+
+describe('buildTriangleBvh', () => {
+  it('finds the triangles whose box is hit', () => {
+    const positions = new Float32Array([
+      0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0, 5, 1, 0, 5, 0, 1, 5
+    ])
+    const bvh = buildTriangleBvh(positions, new Uint32Array([0, 1, 2, 3, 4, 5]))
+
+    expect(raycast(bvh, [0.2, 0.2, -1], [0, 0, 1])).toEqual([0, 1])
+    expect(raycast(bvh, [2, 2, -1], [0, 0, 1])).toEqual([])
+  })
+})
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import * as THREE from 'three'
+import { VIMLoader } from '../src/VIMLoader'
+import { VimScene } from '../src/vim'
+import { makeG3d } from './helpers'
+
+function buildScene (): Promise<VimScene> {
+  const material = new THREE.MeshBasicMaterial({ side: THREE.DoubleSide })
+  return new VIMLoader(material).buildScene(makeG3d(), undefined, [0, 0, 0])
+}
+
+// Nodes hit by a ray going down z through given point
+function raycast (scene: VimScene, x: number, y: number): number[] {
+  const raycaster = new THREE.Raycaster(
+    new THREE.Vector3(x, y, 1),
+    new THREE.Vector3(0, 0, -1)
+  )
+  scene.geometry.meshes.forEach((mesh) => mesh.updateMatrixWorld())
+  return raycaster.intersectObjects(scene.geometry.meshes).map((hit) => {
+    const mesh = hit.object as THREE.Mesh
+    return mesh.userData.merged
+      ? scene.geometry.getMergedNodeFromVertex(mesh, hit.face!.a)!
+      : scene.getNodeIndexFromMesh(mesh, hit.instanceId!)!
+  })
+}
+
+describe('setBvhRaycast', () => {
+  it('hits instanced and merged nodes', async () => {
+    const scene = await buildScene()
+
+    expect(raycast(scene, 0.7, 0.2)).toEqual([0])
+    expect(raycast(scene, 20.7, 0.2)).toEqual([2])
+    expect(raycast(scene, 10.2, 0.2)).toEqual([1])
+    expect(raycast(scene, 5, 5)).toEqual([])
+  })
+
+  it('skips hidden and ghosted instances', async () => {
+    const scene = await buildScene()
+    scene.setNodeVisibility(0, 'hidden')
+    scene.setNodeVisibility(2, 'ghosted')
+
+    expect(raycast(scene, 0.7, 0.2)).toEqual([])
+    expect(raycast(scene, 20.7, 0.2)).toEqual([])
+  })
+
+  it('skips hidden and ghosted merged nodes', async () => {
+    const scene = await buildScene()
+    scene.setNodeVisibility(1, 'ghosted')
+    expect(raycast(scene, 10.2, 0.2)).toEqual([])
+
+    scene.setNodeVisibility(1, 'hidden')
+    expect(raycast(scene, 10.2, 0.2)).toEqual([])
+
+    scene.setNodeVisibility(1, 'visible')
+    expect(raycast(scene, 10.2, 0.2)).toEqual([1])
+  })
+})
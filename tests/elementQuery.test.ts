@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import { ElementQuery, queryElements } from '../src/elementQuery'
+import { VimScene } from '../src/vim'
+import { makeBim } from './helpers'
+
+// Only the bim and the elements with nodes are used by queries
+const vimScene = {
+  getBim: () => makeBim(),
+  elementToNodes: new Map([
+    [100, [0]],
+    [200, [1]]
+  ])
+} as unknown as VimScene
+
+const query = (q: ElementQuery) => queryElements(vimScene, q)
+
+describe('queryElements', () => {
+  it('matches all elements with nodes without filters', () => {
+    expect(query({})).toEqual([100, 200])
+  })
+
+  it('matches exact values', () => {
+    expect(query({ category: 'Doors' })).toEqual([100])
+    expect(query({ category: 'doors' })).toEqual([])
+    expect(query({ family: 'Single Door', type: '900mm' })).toEqual([100])
+  })
+
+  it('matches contained values ignoring case', () => {
+    expect(query({ level: { contains: 'level' } })).toEqual([100, 200])
+    expect(query({ name: { contains: 'ALL' } })).toEqual([200])
+  })
+
+  it('does not match missing values', () => {
+    expect(query({ category: { contains: '' } })).toEqual([100])
+  })
+
+  it('matches parameters by value and range', () => {
+    expect(query({ parameter: { name: 'Width', min: 0.5, max: 1 } })).toEqual([
+      100, 200
+    ])
+    expect(query({ parameter: { name: 'Width', max: 0.5 } })).toEqual([])
+    expect(query({ parameter: { name: 'Mark', equals: 'D1' } })).toEqual([100])
+  })
+
+  it('matches element properties like parameters', () => {
+    expect(query({ parameter: { name: 'Fire Rating', min: 80 } })).toEqual([
+      100
+    ])
+    expect(query({ parameter: { name: 'Fire Rating', equals: '60' } })).toEqual(
+      [200]
+    )
+  })
+
+  it('matches all filters', () => {
+    expect(
+      query({
+        level: 'Level 1',
+        parameter: [
+          { name: 'Width', equals: '0.9' },
+          { name: 'Mark', contains: 'd' }
+        ]
+      })
+    ).toEqual([100])
+    expect(query({ name: 'Wall', family: 'Single Door' })).toEqual([])
+  })
+
+  it('matches nothing until the bim is loaded', () => {
+    const scene = { ...vimScene, getBim: () => undefined } as VimScene
+    expect(queryElements(scene, { category: 'Doors' })).toEqual([])
+  })
+})
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest'
+import { Attribute, G3d, VimG3d } from '../src/g3d'
+import { parseBFastFromArray } from '../src/bfast'
+import { buildMeshData } from '../src/geometryData'
+import { G3dValidationError } from '../src/loadErrors'
+import { makeG3d, toBytes } from './helpers'
+
+describe('Attribute.castData', () => {
+  it('decodes signed and unsigned integers', () => {
+    const int8 = Attribute.castData(toBytes(new Int8Array([-1, 2])), 'int8')
+    const uint16 = Attribute.castData(
+      toBytes(new Uint16Array([65535])),
+      'uint16'
+    )
+
+    expect(Array.from(int8)).toEqual([-1, 2])
+    expect(Array.from(uint16)).toEqual([65535])
+  })
+
+  it('decodes 64 bit integers to doubles', () => {
+    const int64 = Attribute.castData(
+      toBytes(new BigInt64Array([-5n, 2n ** 52n])),
+      'int64'
+    )
+    const uint64 = Attribute.castData(
+      toBytes(new BigUint64Array([2n ** 40n])),
+      'uint64'
+    )
+
+    expect(int64).toBeInstanceOf(Float64Array)
+    expect(Array.from(int64)).toEqual([-5, 2 ** 52])
+    expect(Array.from(uint64)).toEqual([2 ** 40])
+  })
+
+  it('rejects 64 bit integers doubles do not represent exactly', () => {
+    const bytes = toBytes(new BigInt64Array([2n ** 60n]))
+
+    expect(() => Attribute.castData(bytes, 'int64')).toThrow(G3dValidationError)
+  })
+
+  it('copies data which is not aligned', () => {
+    const bytes = new Uint8Array(9).subarray(1)
+    const data = Attribute.castData(bytes, 'float32')
+
+    expect(data).toBeInstanceOf(Float32Array)
+    expect(data).toHaveLength(2)
+  })
+
+  it('rejects unknown types and partial values', () => {
+    expect(() => Attribute.castData(new Uint8Array(4), 'bogus')).toThrow(
+      G3dValidationError
+    )
+    expect(() => Attribute.castData(new Uint8Array(3), 'int16')).toThrow(
+      G3dValidationError
+    )
+  })
+})
+
+describe('VimG3d', () => {
+  it('reads double precision positions and transforms', () => {
+    const bfast = parseBFastFromArray(makeG3d(1e6 + 0.25, true))
+    const g3d = new VimG3d(G3d.fromBFast(bfast))
+    g3d.validate()
+
+    expect(g3d.positions).toBeInstanceOf(Float64Array)
+    expect(g3d.instanceTransforms).toBeInstanceOf(Float64Array)
+    expect(g3d.positions[0]).toBe(1e6 + 0.25)
+  })
+
+  it('keeps precision when moved near zero', () => {
+    const g3d = new VimG3d(
+      G3d.fromBFast(parseBFastFromArray(makeG3d(1e8 + 0.25, true)))
+    )
+    g3d.rebase([1e8, 1e8, 1e8])
+
+    // Node 1 moves the triangle mesh by 10 along x, without rotation
+    const positions = buildMeshData(g3d, 1).positions
+    const matrix = g3d.getTransformMatrixAsArray(1)
+    const world = Array.from(
+      positions,
+      (value, i) => value + matrix[12 + (i % 3)]
+    )
+    expect(world).toEqual([
+      10.25, 0.25, 0.25, 12.25, 0.25, 0.25, 10.25, 2.25, 0.25
+    ])
+  })
+})
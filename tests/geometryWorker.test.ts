@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest'
+import { GeometryWorker, InlineWorker, WorkerLike } from '../src/geometryWorker'
+import { parseBFastFromArray } from '../src/bfast'
+import { G3d, VimG3d } from '../src/g3d'
+import {
+  BFastHeaderError,
+  LoadAbortedError,
+  LoadError
+} from '../src/loadErrors'
+import { LoadProgress } from '../src/loadProgress'
+import { makeG3d } from './helpers'
+
+describe('GeometryWorker', () => {
+  it('builds instanced and merged meshes', async () => {
+    const worker = new GeometryWorker(new InlineWorker())
+    const [, data] = await worker.build(makeG3d())
+
+    // The quad is shared by nodes 0 and 2
+    expect(data.instanced).toHaveLength(1)
+    const instanced = data.instanced[0]
+    expect(Array.from(instanced.nodes)).toEqual([0, 2])
+    expect(Array.from(instanced.indices)).toEqual([0, 1, 2, 0, 2, 3])
+    expect(instanced.positions).toHaveLength(4 * 3)
+    expect(instanced.matrices[12]).toBe(0)
+    expect(instanced.matrices[16 + 12]).toBe(20)
+
+    // The triangle is only used by node 1, merged in model space
+    const merged = data.merged
+    expect(Array.from(merged.nodes)).toEqual([1])
+    expect(Array.from(merged.vertexOffsets)).toEqual([0, 3])
+    expect(Array.from(merged.positions)).toEqual([10, 0, 0, 12, 0, 0, 10, 2, 0])
+    expect(Array.from(merged.colors.subarray(0, 3))).toEqual([0, 1, 0])
+
+    expect(data.transparentInstanced).toHaveLength(0)
+    expect(data.transparentMerged).toBeUndefined()
+  })
+
+  it('gives back the g3d bytes', async () => {
+    const bytes = makeG3d()
+    const expected = bytes.slice()
+    const worker = new GeometryWorker(new InlineWorker())
+    const [result] = await worker.build(bytes)
+
+    expect(result).toEqual(expected)
+    const g3d = new VimG3d(G3d.fromBFast(parseBFastFromArray(result)))
+    expect(g3d.getInstanceCount()).toBe(4)
+  })
+
+  it('gives back the moved positions and transforms', async () => {
+    const worker = new GeometryWorker(new InlineWorker())
+    const [bytes, , origin, rebased] = await worker.build(makeG3d(1e6))
+    expect(origin).not.toEqual([0, 0, 0])
+
+    const expected = new VimG3d(G3d.fromBFast(parseBFastFromArray(bytes)))
+    expected.rebase(origin)
+    expect(rebased?.positions).toEqual(expected.positions)
+    expect(rebased?.instanceTransforms).toEqual(expected.instanceTransforms)
+  })
+
+  it('gives back no moved arrays near zero', async () => {
+    const worker = new GeometryWorker(new InlineWorker())
+    const [, , origin, rebased] = await worker.build(makeG3d())
+
+    expect(origin).toEqual([0, 0, 0])
+    expect(rebased).toBeUndefined()
+  })
+
+  it('reports progress', async () => {
+    const progress: LoadProgress[] = []
+    const worker = new GeometryWorker(new InlineWorker())
+    await worker.build(makeG3d(), (p) => progress.push(p))
+
+    expect(progress.map((p) => p.stage)).toContain('build-geometry')
+  })
+
+  it('rejects invalid data with the error type of the worker', async () => {
+    const worker = new GeometryWorker(new InlineWorker())
+    const result = worker.build(new Uint8Array(64))
+
+    await expect(result).rejects.toBeInstanceOf(BFastHeaderError)
+  })
+
+  it('rejects pending requests when terminated', async () => {
+    const worker = new GeometryWorker(new InlineWorker())
+    const result = worker.build(makeG3d())
+    worker.terminate(new LoadAbortedError())
+
+    await expect(result).rejects.toBeInstanceOf(LoadAbortedError)
+  })
+
+  it('rejects pending requests when the worker fails', async () => {
+    // Fails like a worker whose script could not load
+    const failing: WorkerLike = {
+      onmessage: null,
+      onerror: null,
+      onmessageerror: null,
+      postMessage () {
+        setTimeout(() => this.onerror?.({ message: 'Script error' }))
+      },
+      terminate () {}
+    }
+    const worker = new GeometryWorker(failing)
+    const result = worker.build(makeG3d())
+
+    await expect(result).rejects.toBeInstanceOf(LoadError)
+    await expect(result).rejects.toThrow('Script error')
+  })
+})
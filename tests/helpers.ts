@@ -0,0 +1,209 @@
+/**
+ @author VIM / https://vimaec.com
+*/
+
+import { BimData } from '../src/bim'
+
+// Builds BFAST, G3D and BIM data in memory for the tests
+
+const alignment = 64
+
+function align (offset: number) {
+  return Math.ceil(offset / alignment) * alignment
+}
+
+export function toBytes (array: ArrayBufferView): Uint8Array {
+  return new Uint8Array(array.buffer, array.byteOffset, array.byteLength)
+}
+
+/**
+ * Builds a BFAST container, the names buffer is added before the given buffers.
+ */
+export function makeBFast (names: string[], buffers: Uint8Array[]): Uint8Array {
+  const nameBytes = new TextEncoder().encode(
+    names.map((n) => n + '\0').join('')
+  )
+  const all = [nameBytes, ...buffers]
+
+  // 32 bytes header followed by a begin and an end int64 per buffer
+  const rangesEnd = 32 + all.length * 16
+  const ranges: [number, number][] = []
+  let offset = align(rangesEnd)
+  all.forEach((buffer) => {
+    ranges.push([offset, offset + buffer.byteLength])
+    offset = align(offset + buffer.byteLength)
+  })
+
+  const result = new Uint8Array(offset)
+  const header = new Int32Array(result.buffer)
+  header[0] = 0xbfa5
+  header[2] = align(rangesEnd)
+  header[4] = offset
+  header[6] = all.length
+  ranges.forEach(([begin, end], i) => {
+    header[8 + i * 4] = begin
+    header[8 + i * 4 + 2] = end
+    result.set(all[i], begin)
+  })
+  return result
+}
+
+/**
+ * Builds a g3d with a quad mesh used by nodes 0 and 2, a triangle mesh used by node 1,
+ * and node 3 without geometry. Node i is moved by i * 10 along x.
+ * @param offset added to all positions
+ * @param double stores positions and transforms as float64
+ */
+export function makeG3d (offset = 0, double = false): Uint8Array {
+  const FloatArray = double ? Float64Array : Float32Array
+  const floatType = double ? 'float64' : 'float32'
+  const positions = FloatArray.from([
+    0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0, 0, 0, 0, 2, 0, 0, 0, 2, 0
+  ]).map((value) => value + offset)
+  const indices = new Int32Array([0, 1, 2, 0, 2, 3, 4, 5, 6])
+  const transforms = new FloatArray(4 * 16)
+  for (let i = 0; i < 4; i++) {
+    transforms.set(
+      [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, i * 10, 0, 0, 1],
+      i * 16
+    )
+  }
+
+  return makeBFast(
+    [
+      'meta',
+      `g3d:vertex:position:0:${floatType}:3`,
+      'g3d:corner:index:0:int32:1',
+      'g3d:instance:mesh:0:int32:1',
+      `g3d:instance:transform:0:${floatType}:16`,
+      'g3d:mesh:submeshoffset:0:int32:1',
+      'g3d:submesh:indexoffset:0:int32:1',
+      'g3d:submesh:material:0:int32:1',
+      'g3d:material:color:0:float32:4'
+    ],
+    [
+      new TextEncoder().encode('meta'),
+      toBytes(positions),
+      toBytes(indices),
+      toBytes(new Int32Array([0, 1, 0, -1])),
+      toBytes(transforms),
+      toBytes(new Int32Array([0, 1])),
+      toBytes(new Int32Array([0, 6])),
+      toBytes(new Int32Array([0, 1])),
+      toBytes(new Float32Array([1, 0, 0, 1, 0, 1, 0, 1]))
+    ]
+  )
+}
+
+// Strings of the bim made by makeBim, by index
+const bimStrings = [
+  '',
+  'Door',
+  'Wall',
+  'Doors',
+  'Level 1',
+  'Single Door',
+  '900mm',
+  'Width',
+  'Dimensions',
+  '0.9',
+  'Mark',
+  'D1',
+  'Fire Rating',
+  '60',
+  '90'
+]
+
+/**
+ * Builds the entity tables of a door with id 100 and a wall with id 200, both on Level 1.
+ * The door is a Single Door of type 900mm in the Doors category, the wall has no category.
+ * Both have a Width of 0.9 and the door a Mark of D1, in the Vim.Parameter table.
+ * Fire Rating is a property of the element table, 90 for the door and 60 for the wall.
+ */
+export function makeBim (): BimData {
+  const tables = new Map<string, Map<string, Float64Array | Int32Array>>([
+    [
+      'Vim.Element',
+      new Map<string, Float64Array | Int32Array>([
+        ['numeric:Id', new Float64Array([100, 200, 300, 400, 500])],
+        // Door, wall, then the elements of the level, family and type
+        ['string:Name', new Int32Array([1, 2, 4, 5, 6])],
+        ['index:Vim.Category:Category', new Int32Array([0, -1, -1, -1, -1])],
+        ['index:Vim.Level:Level', new Int32Array([0, 0, -1, -1, -1])],
+        ['properties', new Int32Array([1, 12, 13, 0, 12, 14])]
+      ])
+    ],
+    ['Vim.Category', new Map([['string:Name', new Int32Array([3])]])],
+    [
+      'Vim.Level',
+      new Map([['index:Vim.Element:Element', new Int32Array([2])]])
+    ],
+    [
+      'Vim.Family',
+      new Map([['index:Vim.Element:Element', new Int32Array([3])]])
+    ],
+    [
+      'Vim.FamilyType',
+      new Map([
+        ['index:Vim.Element:Element', new Int32Array([4])],
+        ['index:Vim.Family:Family', new Int32Array([0])]
+      ])
+    ],
+    [
+      'Vim.FamilyInstance',
+      new Map([
+        ['index:Vim.Element:Element', new Int32Array([0])],
+        ['index:Vim.FamilyType:FamilyType', new Int32Array([0])]
+      ])
+    ],
+    [
+      'Vim.ParameterDescriptor',
+      new Map([
+        ['string:Name', new Int32Array([7, 10])],
+        ['string:Group', new Int32Array([8, -1])]
+      ])
+    ],
+    [
+      'Vim.Parameter',
+      new Map([
+        ['index:Vim.Element:Element', new Int32Array([0, 1, 0])],
+        [
+          'index:Vim.ParameterDescriptor:ParameterDescriptor',
+          new Int32Array([0, 0, 1])
+        ],
+        ['string:Value', new Int32Array([9, 9, 11])]
+      ])
+    ]
+  ])
+  return new BimData(tables, bimStrings)
+}
+
+/**
+ * Builds a VIM with the geometry of makeG3d, whose nodes 0 and 2 are the element with id 100,
+ * node 1 the element with id 200 and node 3 has no element.
+ */
+export function makeVim (): Uint8Array {
+  const encoder = new TextEncoder()
+  const elements = makeBFast(
+    ['numeric:Id', 'string:Name'],
+    [toBytes(new Float64Array([100, 200])), toBytes(new Int32Array([1, 2]))]
+  )
+  const nodes = makeBFast(
+    ['index:Vim.Element:Element'],
+    [toBytes(new Int32Array([0, 1, 0, -1]))]
+  )
+  const entities = makeBFast(
+    ['table:Vim.Element', 'table:Vim.Node'],
+    [elements, nodes]
+  )
+  return makeBFast(
+    ['header', 'assets', 'entities', 'strings', 'geometry'],
+    [
+      encoder.encode('vim=1.0.0'),
+      makeBFast([], []),
+      entities,
+      encoder.encode('\0Door\0Wall'),
+      makeG3d()
+    ]
+  )
+}
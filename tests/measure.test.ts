@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+import * as THREE from 'three'
+import { measure, snapPoint } from '../src/measure'
+
+function points (...coordinates: number[][]): THREE.Vector3[] {
+  return coordinates.map((c) => new THREE.Vector3(...c))
+}
+
+// Hit at given world point on the triangle (0, 0, 0), (10, 0, 0), (0, 10, 0) of a mesh at x = 100
+function makeHit (
+  point: number[],
+  instanced = false
+): THREE.Intersection<THREE.Object3D> {
+  const geometry = new THREE.BufferGeometry().setFromPoints(
+    points([0, 0, 0], [10, 0, 0], [0, 10, 0])
+  )
+  const material = new THREE.MeshBasicMaterial()
+  const mesh = instanced
+    ? new THREE.InstancedMesh(geometry, material, 1)
+    : new THREE.Mesh(geometry, material)
+  if (mesh instanceof THREE.InstancedMesh) {
+    mesh.setMatrixAt(0, new THREE.Matrix4().makeTranslation(100, 0, 0))
+  } else {
+    mesh.position.set(100, 0, 0)
+  }
+  mesh.updateMatrixWorld()
+
+  return {
+    distance: 0,
+    point: new THREE.Vector3(...point),
+    object: mesh,
+    face: {
+      a: 0,
+      b: 1,
+      c: 2,
+      normal: new THREE.Vector3(0, 0, 1),
+      materialIndex: 0
+    },
+    instanceId: instanced ? 0 : undefined
+  }
+}
+
+describe('measure', () => {
+  it('measures the distance between two points', () => {
+    expect(measure('distance', points([0, 0, 0], [3, 4, 0]))).toBe(5)
+  })
+
+  it('adds the segments of a polyline', () => {
+    const polyline = points([0, 0, 0], [3, 4, 0], [3, 4, 2])
+    expect(measure('polyline', polyline)).toBe(7)
+  })
+
+  it('measures the angle at the second point', () => {
+    const angle = points([1, 0, 0], [0, 0, 0], [0, 0, 1])
+    expect(measure('angle', angle)).toBeCloseTo(90)
+    expect(measure('angle', angle.slice(0, 2))).toBe(0)
+  })
+
+  it('measures the area of a planar polygon in any plane', () => {
+    // Right triangle with sides 3 and 4, tilted out of the axis planes
+    const rotation = new THREE.Matrix4().makeRotationAxis(
+      new THREE.Vector3(1, 1, 0).normalize(),
+      0.7
+    )
+    const triangle = points([0, 0, 0], [3, 0, 0], [0, 4, 0]).map((p) =>
+      p.applyMatrix4(rotation).add(new THREE.Vector3(5, 6, 7))
+    )
+    expect(measure('area', triangle)).toBeCloseTo(6)
+
+    const square = points([0, 0, 0], [2, 0, 0], [2, 2, 0], [0, 2, 0])
+    expect(measure('area', square)).toBeCloseTo(4)
+  })
+})
+
+describe('snapPoint', () => {
+  it('snaps to the nearest vertex', () => {
+    const snapped = snapPoint(makeHit([109.5, 0.3, 0]), 1)
+    expect(snapped.toArray()).toEqual([110, 0, 0])
+  })
+
+  it('snaps to the nearest edge when no vertex is close enough', () => {
+    const snapped = snapPoint(makeHit([105, 0.5, 0]), 1)
+    expect(snapped.toArray()).toEqual([105, 0, 0])
+  })
+
+  it('keeps the hit point when nothing is within tolerance', () => {
+    const snapped = snapPoint(makeHit([103, 3, 0]), 1)
+    expect(snapped.toArray()).toEqual([103, 3, 0])
+  })
+
+  it('uses the matrix of the hit instance', () => {
+    const snapped = snapPoint(makeHit([100.2, 9.9, 0], true), 1)
+    expect(snapped.toArray()).toEqual([100, 10, 0])
+  })
+})
@@ -0,0 +1,263 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import * as THREE from 'three'
+import {
+  parseBFastFromArray,
+  parseBFastRanges,
+  RemoteBFast
+} from '../src/bfast'
+import { RemoteBuffer } from '../src/remoteBuffer'
+import { VIMLoader } from '../src/VIMLoader'
+import {
+  BFastHeaderError,
+  LoadAbortedError,
+  NetworkError
+} from '../src/loadErrors'
+import { makeBFast, makeVim } from './helpers'
+
+const url = 'https://example.com/model.vim'
+
+type Request = { start: number; end: number } | 'all'
+
+interface ServerOptions {
+  // Answers range requests with the whole file, like servers without range support
+  ignoreRanges?: boolean
+  status?: number
+  // Called before answering, the answer waits for the returned promise
+  onRequest?: (request: Request) => Promise<void> | void
+}
+
+const realFetch = globalThis.fetch
+afterEach(() => {
+  globalThis.fetch = realFetch
+})
+
+/**
+ * Replaces fetch with a server of given bytes, returns the requests it receives.
+ * Pending answers are rejected like fetch does when the signal aborts.
+ */
+function serve (bytes: Uint8Array, options: ServerOptions = {}): Request[] {
+  const requests: Request[] = []
+  globalThis.fetch = async (_input, init) => {
+    const range = (init?.headers as Record<string, string> | undefined)?.Range
+    const match = range && /bytes=(\d+)-(\d+)/.exec(range)
+    const request: Request = match
+      ? { start: Number(match[1]), end: Number(match[2]) + 1 }
+      : 'all'
+    requests.push(request)
+
+    const signal = init?.signal
+    const aborted = new Promise<never>((_resolve, reject) =>
+      signal?.addEventListener('abort', () =>
+        reject(new DOMException('The operation was aborted', 'AbortError'))
+      )
+    )
+    await Promise.race([options.onRequest?.(request), aborted])
+    if (signal?.aborted) throw new DOMException('Aborted', 'AbortError')
+
+    if (options.status) {
+      return new Response(null, { status: options.status, statusText: 'Nope' })
+    }
+    if (request === 'all' || options.ignoreRanges) {
+      return new Response(bytes, { status: 200 })
+    }
+    return new Response(bytes.slice(request.start, request.end), {
+      status: 206,
+      headers: {
+        'Content-Range': `bytes ${request.start}-${request.end - 1}/${
+          bytes.byteLength
+        }`
+      }
+    })
+  }
+  return requests
+}
+
+function bytesOf (count: number): Uint8Array {
+  return Uint8Array.from({ length: count }, (_, i) => i)
+}
+
+describe('RemoteBuffer', () => {
+  it('fetches byte ranges', async () => {
+    const requests = serve(bytesOf(100))
+    const remote = new RemoteBuffer(url)
+
+    expect(Array.from(await remote.http(10, 14))).toEqual([10, 11, 12, 13])
+    expect(remote.size).toBe(100)
+    expect(Array.from(await remote.http(50, 52))).toEqual([50, 51])
+    expect(requests).toEqual([
+      { start: 10, end: 14 },
+      { start: 50, end: 52 }
+    ])
+  })
+
+  it('downloads the whole file once when the server ignores ranges', async () => {
+    const requests = serve(bytesOf(100), { ignoreRanges: true })
+    const remote = new RemoteBuffer(url)
+
+    expect(Array.from(await remote.http(10, 14))).toEqual([10, 11, 12, 13])
+    expect(Array.from(await remote.http(50, 52))).toEqual([50, 51])
+    expect(remote.size).toBe(100)
+    expect(requests).toHaveLength(1)
+  })
+
+  it('reports progress', async () => {
+    serve(bytesOf(100))
+    const remote = new RemoteBuffer(url)
+    const progress: [number, number | undefined][] = []
+    remote.onProgress = (loaded, total) => progress.push([loaded, total])
+
+    await remote.http(0, 10)
+    await remote.http(10, 30)
+    expect(progress).toEqual([
+      [10, 100],
+      [30, 100]
+    ])
+  })
+
+  it('rejects http errors with a NetworkError', async () => {
+    serve(bytesOf(100), { status: 404 })
+    const result = new RemoteBuffer(url).http(0, 10)
+
+    await expect(result).rejects.toBeInstanceOf(NetworkError)
+    await expect(result).rejects.toMatchObject({ status: 404 })
+  })
+
+  it('rejects failed requests with a NetworkError', async () => {
+    globalThis.fetch = () => Promise.reject(new TypeError('Failed to fetch'))
+    const result = new RemoteBuffer(url).all()
+
+    await expect(result).rejects.toBeInstanceOf(NetworkError)
+    await expect(result).rejects.toThrow('Failed to fetch')
+  })
+
+  it('rejects aborted requests with a LoadAbortedError', async () => {
+    const controller = new AbortController()
+    serve(bytesOf(100), { onRequest: () => controller.abort() })
+    const result = new RemoteBuffer(url, controller.signal).http(0, 10)
+
+    await expect(result).rejects.toBeInstanceOf(LoadAbortedError)
+  })
+})
+
+describe('RemoteBFast', () => {
+  const bfast = makeBFast(
+    ['a', 'b'],
+    [new Uint8Array([1, 2, 3]), new Uint8Array([4, 5])]
+  )
+
+  it('fetches the names, then only the buffers asked for', async () => {
+    const requests = serve(bfast)
+    const remote = new RemoteBFast(new RemoteBuffer(url))
+    await remote.initialize()
+    expect(remote.names).toEqual(['a', 'b'])
+
+    expect(Array.from(await remote.getBuffer('b'))).toEqual([4, 5])
+    expect(await remote.getBuffer('c')).toBeUndefined()
+    // Header, ranges, names and b
+    expect(requests).toHaveLength(4)
+  })
+
+  it('reads the same buffers without range support', async () => {
+    serve(bfast, { ignoreRanges: true })
+    const remote = new RemoteBFast(new RemoteBuffer(url))
+    await remote.initialize()
+
+    expect(Array.from(await remote.getBuffer('a'))).toEqual([1, 2, 3])
+  })
+})
+
+describe('parseBFastRanges', () => {
+  const bfast = makeBFast(['a'], [new Uint8Array([1, 2, 3])])
+  const header = parseBFastFromArray(bfast).header
+  const data = new Int32Array(bfast.buffer, 32, header.numArrays * 4)
+
+  it('reads the range of each buffer', () => {
+    const ranges = parseBFastRanges(data, header)
+    expect(ranges).toHaveLength(2)
+    expect(ranges[1][1] - ranges[1][0]).toBe(3)
+  })
+
+  it('rejects ranges outside of the data', () => {
+    const invalid = data.slice()
+    invalid[6] = header.dataEnd + 1
+    expect(() => parseBFastRanges(invalid, header)).toThrow(BFastHeaderError)
+  })
+})
+
+describe('VIMLoader.load', () => {
+  function createLoader () {
+    return new VIMLoader(new THREE.MeshBasicMaterial())
+  }
+
+  // Range of a buffer of the vim
+  function getRange (vim: Uint8Array, name: string) {
+    const bfast = parseBFastFromArray(vim)
+    const buffer = bfast.buffers[bfast.names.indexOf(name)]
+    return {
+      start: buffer.byteOffset,
+      end: buffer.byteOffset + buffer.byteLength
+    }
+  }
+
+  it('builds the geometry before the BIM data arrives', async () => {
+    const vim = makeVim()
+    const entities = getRange(vim, 'entities')
+    const events: string[] = []
+    let geometryLoaded: () => void
+    const waitForGeometry = new Promise<void>((resolve) => {
+      geometryLoaded = resolve
+      // Don't hang when the loader waits for the entities
+      setTimeout(resolve, 1000)
+    })
+    const requests = serve(vim, {
+      onRequest: async (request) => {
+        if (request === 'all' || request.start !== entities.start) return
+        await waitForGeometry
+        events.push('entities')
+      }
+    })
+
+    const scene = await createLoader().load(url, {
+      onGeometryLoaded: (scene) => {
+        events.push(`geometry ${scene.hasBim()}`)
+        geometryLoaded()
+      }
+    })
+
+    expect(events).toEqual(['geometry false', 'entities'])
+    expect(scene.getElementIdFromNodeIndex(1)).toBe(200)
+    // Geometry is the first buffer requested after the header, ranges and names
+    expect(requests[3]).toEqual(getRange(vim, 'geometry'))
+  })
+
+  it('loads the same VIM without range support', async () => {
+    const requests = serve(makeVim(), { ignoreRanges: true })
+    const scene = await createLoader().load(url)
+
+    expect(scene.getNodeIndicesFromElement(100)).toEqual([0, 2])
+    expect(requests).toHaveLength(1)
+  })
+
+  it('rejects with a LoadAbortedError when aborted', async () => {
+    const vim = makeVim()
+    const geometry = getRange(vim, 'geometry')
+    const controller = new AbortController()
+    serve(vim, {
+      onRequest: (request) => {
+        if (request !== 'all' && request.start === geometry.start) {
+          controller.abort()
+        }
+      }
+    })
+    const result = createLoader().load(url, { signal: controller.signal })
+
+    await expect(result).rejects.toBeInstanceOf(LoadAbortedError)
+  })
+
+  it('rejects with a NetworkError when the file is missing', async () => {
+    serve(makeVim(), { status: 404 })
+    const result = createLoader().load(url)
+
+    await expect(result).rejects.toBeInstanceOf(NetworkError)
+  })
+})
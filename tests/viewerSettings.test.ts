@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest'
+import {
+  defaultViewerSettings,
+  mergeSettings,
+  ViewerOptions
+} from '../src/viewerSettings'
+
+// Options with invalid values, which the types would reject
+function merge (options: unknown) {
+  return mergeSettings(defaultViewerSettings, options as ViewerOptions)
+}
+
+describe('validateSettings', () => {
+  it('accepts the default settings', () => {
+    expect(merge({})).toEqual(defaultViewerSettings)
+  })
+
+  it('rejects a bad color', () => {
+    expect(() =>
+      merge({ background: { color: { r: 300, g: 0, b: 0 } } })
+    ).toThrow(
+      "Invalid setting 'background.color': expected a color { r, g, b } with values in [0, 255]"
+    )
+    expect(() => merge({ skylight: { skyColor: 'blue' } })).toThrow(
+      "Invalid setting 'skylight.skyColor'"
+    )
+  })
+
+  it('rejects a bad vector', () => {
+    expect(() => merge({ plane: { position: { x: NaN } } })).toThrow(
+      "Invalid setting 'plane.position': expected a vector { x, y, z } of finite numbers"
+    )
+  })
+
+  it('rejects a value of the wrong type', () => {
+    expect(() => merge({ camera: { fov: '50' } })).toThrow(
+      'Invalid setting \'camera.fov\': expected a number, got "50"'
+    )
+    expect(() => merge({ url: 42 })).toThrow(
+      "Invalid setting 'url': expected a string, got 42"
+    )
+  })
+
+  it('rejects an unknown key', () => {
+    expect(() => merge({ camera: { controls: { sped: 2 } } })).toThrow(
+      "Unknown setting 'camera.controls.sped'"
+    )
+    expect(() => merge({ showGrid: true })).toThrow(
+      "Unknown setting 'showGrid'"
+    )
+  })
+
+  it('accepts all material settings', () => {
+    const material = { shininess: 10, wireframe: true }
+    expect(() => merge({ plane: { material } })).not.toThrow()
+  })
+})
+
+describe('mergeSettings', () => {
+  it('keeps the settings which are not given', () => {
+    const settings = merge({
+      camera: { fov: 70, controls: { speed: 2 } },
+      object: { position: { y: 5 } }
+    })
+
+    expect(settings.camera.fov).toBe(70)
+    expect(settings.camera.near).toBe(defaultViewerSettings.camera.near)
+    expect(settings.camera.controls.speed).toBe(2)
+    expect(settings.camera.controls.zoomSpeed).toBe(
+      defaultViewerSettings.camera.controls.zoomSpeed
+    )
+    expect(settings.object.position).toEqual({ x: 0, y: 5, z: 0 })
+    expect(settings.background).toEqual(defaultViewerSettings.background)
+  })
+
+  it('does not change the merged settings', () => {
+    const previous = merge({ measure: { unit: 'm' } })
+    const copy = JSON.parse(JSON.stringify(previous))
+    const next = mergeSettings(previous, { measure: { unit: 'ft' } })
+
+    expect(next.measure.unit).toBe('ft')
+    expect(previous).toEqual(copy)
+  })
+})